@@ -1,48 +1,476 @@
 import express from 'express';
 import http from 'http';
 import { Server } from 'socket.io';
+import fs from 'fs';
 import path from 'path';
+import { randomUUID } from 'crypto';
 import { fileURLToPath } from 'url';
+import { createApiRouter, parseApiTokens } from './server/api.mjs';
+import { createSessionTokens, defaultRole, parseAccessCodes, roleForCode, sameSecret } from './server/auth.mjs';
+import { createBoardRegistry, isValidBoardName } from './server/boards.mjs';
+import { createFacilityStore, migrateBoardLanes, validateRenames } from './server/facilities.mjs';
+import { actorName, normalizeIdentity, presenceList } from './server/presence.mjs';
+import { createVatsimFeed, DEFAULT_FEED_URL, followsFeed, linkOp, syncOp } from './server/vatsim.mjs';
+import { createWebhooks, eventsForOp } from './server/webhooks.mjs';
+import { boardToCsv, boardToJson, exportFileName, handoverReport, readBoardExport } from './shared/export.mjs';
+import { facilityNames, INBOX_LANE, laneKeys, validateFacilityConfig } from './shared/facilities.mjs';
+import { minutesUntil } from './shared/geo.mjs';
+import { SERVER_OPS } from './shared/ops.mjs';
+import { hasRole, opPermission } from './shared/permissions.mjs';
+import { eventPayloadError, MAX_PAYLOAD_BYTES } from './shared/schema.mjs';
+import { validateWebhooks } from './shared/webhooks.mjs';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
 const server = http.createServer(app);
-const io = new Server(server); // same-origin; no CORS
+const io = new Server(server, { maxHttpBufferSize: MAX_PAYLOAD_BYTES }); // same-origin; no CORS
 
-// ---- Realtime in-memory state ----
-let boardState = {
-  lanes: { Unassigned: [], 'New York': [], Curacao: [], Piarco: [], Maiquetia: [] },
-  items: {},
-  lastUpdated: Date.now()
-};
+// ---- Realtime state (one Socket.IO room per named board, persisted to DATA_DIR) ----
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, 'data');
+const SAVE_THROTTLE_MS = Number(process.env.SAVE_THROTTLE_MS) || 1000;
+const archiveKeep = Number(process.env.ARCHIVE_KEEP?.trim() || NaN);
+const ARCHIVE_KEEP = Number.isInteger(archiveKeep) && archiveKeep >= 0 ? archiveKeep : 20; // 0 = keep none
+const BOARD_MAX_AGE_HOURS = Number(process.env.BOARD_MAX_AGE_HOURS) || 0; // 0 = never expire
+const DEFAULT_BOARD = 'main';
+
+// Lanes, fixes, colors and copy formats; refuses to start on an invalid file.
+const facilities = createFacilityStore({ defaultsFile: path.join(__dirname, 'config', 'facilities.json'), dataDir: DATA_DIR });
+
+// Single-board snapshots (DATA_DIR/board.json) become the default named board.
+const legacyFile = path.join(DATA_DIR, 'board.json');
+const defaultFile = path.join(DATA_DIR, 'boards', `${DEFAULT_BOARD}.json`);
+if (fs.existsSync(legacyFile) && !fs.existsSync(defaultFile)) {
+  fs.mkdirSync(path.dirname(defaultFile), { recursive: true });
+  fs.renameSync(legacyFile, defaultFile);
+}
+
+const boards = createBoardRegistry({
+  dataDir: DATA_DIR,
+  laneKeys: () => laneKeys(facilities.get()),
+  throttleMs: SAVE_THROTTLE_MS,
+  archiveKeep: ARCHIVE_KEEP,
+  maxAgeHours: BOARD_MAX_AGE_HOURS
+});
+if (!boards.get(DEFAULT_BOARD)) boards.create(DEFAULT_BOARD);
+// Boards saved under an older configuration pick up its lanes on startup.
+boards.migrateAll((state) => migrateBoardLanes(state, facilities.get()));
+
+// ---- Roles (observer / controller / admin), chosen by the access code a controller enters ----
+const ACCESS_CODES = parseAccessCodes(process.env.ACCESS_CODES);
+const sessions = createSessionTokens(process.env.SESSION_SECRET);
+if (!ACCESS_CODES.length) console.log('⚠️  No ACCESS_CODES set: everyone can edit, reset and configure boards');
+const API_TOKENS = parseApiTokens(process.env.API_TOKENS);
+
+const roomOf = (name) => `board:${name}`;
+const WEBHOOKS_ROOM = 'webhooks'; // /admin pages watching the delivery log
+
+// ---- Outbound webhooks (card added / moved / changed / overdue) ----
+const WEBHOOK_OVERDUE_CHECK_MS = 30_000;
+const webhooks = createWebhooks({
+  dataDir: DATA_DIR,
+  getConfig: () => facilities.get(),
+  onDelivery: (d) => io.to(WEBHOOKS_ROOM).emit('webhooks:delivery', d)
+});
+setInterval(() => webhooks.checkOverdue(boards.loaded()), WEBHOOK_OVERDUE_CHECK_MS).unref();
+
+const broadcastPresence = (name) => io.to(roomOf(name)).emit('presence:state', presenceList(io, roomOf(name)));
+
+// ---- VATSIM feed (polled once here, pushed to clients) ----
+// VATSIM_FEED_URL may be an http(s) URL, a file: URL or a path such as fixtures/vatsim-data.json.
+const VATSIM_FEED_URL = process.env.VATSIM_FEED_URL || DEFAULT_FEED_URL;
+const VATSIM_POLL_MS = Number(process.env.VATSIM_POLL_MS) || 15_000;
+
+const callsignsOn = (state) => new Set(Object.values(state.items).map((i) => i.callsign.toUpperCase()));
+
+// Manual cards (typed in or imported before the pilot connected) are linked to the
+// live pilot as soon as the callsign shows up in the feed.
+function linkManualCards(entry) {
+  for (const item of Object.values(entry.state.items)) {
+    if (item.source !== 'manual' || item.vatsimCid) continue;
+    const pilot = feed.get(item.callsign.toUpperCase());
+    if (!pilot?.cid) continue;
+    submitOp(entry, linkOp(item, pilot), 'VATSIM feed');
+  }
+}
+
+// Cards following a pilot take their filed route and new squawks, and are marked while
+// the pilot is out of the feed (see syncOp). Runs after every poll that changed something.
+const lastSquawk = new Map(); // callsign -> transponder at the previous poll
+
+function syncCards(entry, lastSeen) {
+  for (const item of Object.values(entry.state.items)) {
+    if (!followsFeed(item)) continue;
+    const callsign = item.callsign.toUpperCase();
+    const op = syncOp(item, feed.get(callsign), lastSquawk.get(callsign), lastSeen);
+    if (!op) continue;
+    submitOp(entry, op, 'VATSIM feed');
+  }
+}
+
+// With removeDisconnectedMinutes configured, cards whose pilot has been gone that long are
+// removed. Skipped while the feed is failing, as every pilot would look disconnected.
+const DISCONNECTED_CHECK_MS = 60_000;
+function removeDisconnected(now = Date.now()) {
+  const minutes = facilities.get().removeDisconnectedMinutes;
+  if (!minutes || feed.status().error) return;
+  for (const entry of boards.loaded()) {
+    for (const item of Object.values(entry.state.items)) {
+      if (!item.lastSeen || now - item.lastSeen < minutes * 60_000) continue;
+      submitOp(entry, { type: 'item:delete', id: item.id }, 'VATSIM feed');
+    }
+  }
+}
+setInterval(removeDisconnected, DISCONNECTED_CHECK_MS).unref();
+
+// With autoCompleteMinutes configured, cards in a facility lane are completed that long after
+// their estimate. Estimates are times of day, so only the half day around now counts as passed.
+// A card reactivated from the archive stays until it is given a new estimate.
+const AUTO_COMPLETE_CHECK_MS = 60_000;
+const autoCompleted = new Set(); // board:itemId:estimate
+function autoComplete(now = Date.now()) {
+  const minutes = facilities.get().autoCompleteMinutes;
+  if (!minutes) return;
+  pruneAutoCompleted();
+  for (const entry of boards.loaded()) {
+    for (const [lane, ids] of Object.entries(entry.state.lanes)) {
+      if (lane === INBOX_LANE) continue;
+      for (const id of ids) {
+        const { estimate } = entry.state.items[id];
+        const until = minutesUntil(estimate, now);
+        const key = `${entry.name}:${id}:${estimate}`;
+        if (until === null || until > -minutes || autoCompleted.has(key)) continue;
+        if (submitOp(entry, { type: 'item:complete', id }, 'Auto-complete').entry) autoCompleted.add(key);
+      }
+    }
+  }
+}
+// A key matters while its card is archived (it may be reactivated) or back on the board with the
+// same estimate; a deleted card, a new estimate or a reset/restored board lets it go.
+function pruneAutoCompleted() {
+  const live = new Set();
+  for (const entry of boards.loaded()) {
+    for (const item of Object.values(entry.state.items)) live.add(`${entry.name}:${item.id}:${item.estimate}`);
+    for (const { item } of Object.values(entry.state.completed || {})) live.add(`${entry.name}:${item.id}:${item.estimate}`);
+  }
+  for (const key of autoCompleted) if (!live.has(key)) autoCompleted.delete(key);
+}
+setInterval(autoComplete, AUTO_COMPLETE_CHECK_MS).unref();
+
+// Each board room only hears about the pilots it has cards for.
+function pushDelta(delta) {
+  for (const entry of boards.loaded()) {
+    if (delta.connected.length) linkManualCards(entry);
+    syncCards(entry, delta.previousAt);
+    const room = roomOf(entry.name);
+    if (!io.sockets.adapter.rooms.get(room)?.size) continue;
+    const wanted = callsignsOn(entry.state);
+    const scoped = {
+      connected: delta.connected.filter((p) => wanted.has(p.callsign.toUpperCase())),
+      updated: delta.updated.filter((p) => wanted.has(p.callsign.toUpperCase())),
+      disconnected: delta.disconnected.filter((c) => wanted.has(c.toUpperCase())),
+      updatedAt: delta.updatedAt
+    };
+    if (scoped.connected.length || scoped.updated.length || scoped.disconnected.length) {
+      io.to(room).emit('vatsim:delta', scoped);
+    }
+  }
+  for (const p of [...delta.connected, ...delta.updated]) lastSquawk.set(p.callsign.toUpperCase(), p.transponder);
+  for (const c of delta.disconnected) lastSquawk.delete(c.toUpperCase());
+}
+
+// Commit an op from a client (socket or REST) or the server itself, broadcast it to the
+// board's room and hand its events to the webhooks.
+function submitOp(entry, op, actor, opId = randomUUID()) {
+  const before = entry.state;
+  const result = boards.commit(entry, opId, op, actor);
+  if (!result.entry) return result;
+  io.to(roomOf(entry.name)).emit('op:apply', result.entry);
+  for (const event of eventsForOp(before, entry.state, result.entry)) webhooks.emit(entry.name, event);
+  // A new card starts receiving live updates for its pilot straight away.
+  const added = result.entry.op.type === 'item:add' && feed.get(result.entry.op.item.callsign.toUpperCase());
+  if (added) {
+    io.to(roomOf(entry.name)).emit('vatsim:delta', { connected: [added], updated: [], disconnected: [], updatedAt: Date.now() });
+    linkManualCards(entry);
+  }
+  return result;
+}
+
+// Live pilots for a board's cards, sent when a client joins.
+const trafficFor = (state) => [...callsignsOn(state)].map((c) => feed.get(c)).filter(Boolean);
+
+const feed = createVatsimFeed({
+  source: VATSIM_FEED_URL,
+  intervalMs: VATSIM_POLL_MS,
+  onDelta: pushDelta,
+  onStatus: ({ count, updatedAt, error }) => io.emit('vatsim:status', { count, updatedAt, error })
+});
+feed.start();
+
+app.get('/api/config', (_, res) => res.json(facilities.get()));
+
+// ---- Board export and handover report ----
+// With ACCESS_CODES set these need a download token (?download=, requested by a signed-in
+// board over the socket just before the download) or an API token in the Authorization header.
+function exportAuth(req, res, next) {
+  if (!ACCESS_CODES.length || sessions.verifyDownload(req.query.download, req.params.name)) return next();
+  const bearer = (req.get('authorization') || '').replace(/^Bearer\s+/i, '');
+  if (bearer && API_TOKENS.some((t) => sameSecret(t.token, bearer))) return next();
+  res.status(401).json({ error: 'Sign in on the board (or send an API token) to download it' });
+}
+
+function boardParam(req, res) {
+  const entry = boards.get(req.params.name);
+  if (!entry) res.status(404).json({ error: `No board named "${req.params.name}"` });
+  return entry;
+}
+
+app.get('/api/boards/:name/export.json', exportAuth, (req, res) => {
+  const entry = boardParam(req, res);
+  if (!entry) return;
+  res.attachment(exportFileName(entry.name, 'json')).json(boardToJson(entry.state, { board: entry.name }));
+});
+
+app.get('/api/boards/:name/export.csv', exportAuth, (req, res) => {
+  const entry = boardParam(req, res);
+  if (!entry) return;
+  res.attachment(exportFileName(entry.name, 'csv')).type('text/csv').send(boardToCsv(entry.state, facilities.get()));
+});
+
+app.get('/api/boards/:name/report.html', exportAuth, (req, res) => {
+  const entry = boardParam(req, res);
+  if (!entry) return;
+  res.type('html').send(handoverReport(entry.state, facilities.get(), { board: entry.name }));
+});
+
+// ---- REST API for scripts and bots (token-protected; described in server/openapi.json) ----
+app.get('/api/v1/openapi.json', (_, res) => res.sendFile(path.join(__dirname, 'server', 'openapi.json')));
+app.use('/api/v1', createApiRouter({ boards, facilities, submit: submitOp, tokens: API_TOKENS }));
+
+app.get('/api/vatsim/pilots', (req, res) => {
+  const limit = Math.min(Number(req.query.limit) || 50, 500);
+  res.json({ ...feed.status(), pilots: feed.search(req.query.q, limit) });
+});
+
+app.get('/api/vatsim/pilots/:callsign', (req, res) => {
+  const pilot = feed.get(req.params.callsign.toUpperCase());
+  if (!pilot) return res.status(404).json({ error: 'Pilot not connected' });
+  res.json(pilot);
+});
 
 io.on('connection', (socket) => {
-  socket.on('board:pull', () => socket.emit('board:state', boardState));
+  // The board this socket has joined; every board event below is scoped to it.
+  let board = null;
+  // Recorded as the author of this connection's changes; anonymous until the controller identifies.
+  const actor = () => actorName(socket.data.identity, socket);
+  socket.data.role = defaultRole(ACCESS_CODES);
+  const session = () => ({ role: socket.data.role, facility: socket.data.identity?.facility ?? null });
+  // Replies `false` (after telling the client why) when this session lacks `role`.
+  const allowed = (role, reply) => hasRole(session(), role) || (reply({ error: `Only ${role}s can do that` }), false);
 
-  socket.on('board:update', (incoming) => {
-    if ((incoming?.lastUpdated || 0) >= (boardState?.lastUpdated || 0)) {
-      boardState = incoming;
-      socket.broadcast.emit('board:state', boardState);
+  socket.emit('session:state', { identity: null, role: socket.data.role, open: !ACCESS_CODES.length });
+
+  // Every event is checked against its schema before a handler sees it. A refusal goes back
+  // the way that event reports errors: its ack, op:reject, board:error, or request:error.
+  socket.use(([event, payload, ...rest], next) => {
+    const message = eventPayloadError(event, payload);
+    if (!message) return next();
+    const ack = rest.find((a) => typeof a === 'function');
+    if (event === 'op:submit') socket.emit('op:reject', { opId: typeof payload?.opId === 'string' ? payload.opId : null, message });
+    else if (event === 'board:create' || event === 'board:join') socket.emit('board:error', { message });
+    else if (ack) ack(event === 'config:update' || event === 'webhooks:update' ? { errors: [message] } : { error: message });
+    else socket.emit('request:error', { event, message });
+  });
+
+  // Either { cid, callsign, facility, code } from the identity form, or { token } from an earlier session.
+  // Whatever a client sends, it gets an error reply; nothing it sends may take the server down.
+  socket.on('session:identify', (raw, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    try {
+      identifySocket(raw, reply);
+    } catch (e) {
+      console.error('⚠️  session:identify failed:', e.message);
+      reply({ error: 'Could not check that identity; try again' });
+    }
+  });
+
+  function identifySocket(raw, reply) {
+    let identity;
+    let role;
+    if (raw?.token) {
+      const resumed = sessions.verify(raw.token);
+      if (!resumed || !facilityNames(facilities.get()).includes(resumed.identity.facility)) {
+        return reply({ error: 'Your session has expired; identify again', expired: true });
+      }
+      ({ identity, role } = resumed);
+    } else {
+      const checked = normalizeIdentity(raw, facilityNames(facilities.get()));
+      if (checked.error) return reply({ error: checked.error });
+      identity = checked.identity;
+      const granted = roleForCode(ACCESS_CODES, raw.code, identity.facility);
+      if (granted.error) return reply({ error: granted.error });
+      role = granted.role;
+    }
+    socket.data.identity = identity;
+    socket.data.role = role;
+    reply({ identity, role, token: sessions.issue({ identity, role }) });
+    if (board) broadcastPresence(board.name);
+  }
+
+  // "Being edited by X" markers: one focused field per connection.
+  socket.on('field:focus', ({ itemId, field } = {}) => {
+    if (!board || typeof itemId !== 'string' || typeof field !== 'string' || !hasRole(session(), 'controller')) return;
+    socket.data.editing = { itemId, field };
+    broadcastPresence(board.name);
+  });
+
+  socket.on('field:blur', () => {
+    if (!board || !socket.data.editing) return;
+    socket.data.editing = null;
+    broadcastPresence(board.name);
+  });
+
+  socket.on('disconnect', () => {
+    if (board) broadcastPresence(board.name);
+  });
+
+  const { count, updatedAt, error } = feed.status();
+  socket.emit('vatsim:status', { count, updatedAt, error });
+
+  socket.on('vatsim:search', ({ q, limit } = {}, ack) => {
+    if (typeof ack === 'function') ack(feed.search(q, Math.min(Number(limit) || 50, 500)));
+  });
+
+  socket.emit('config:state', facilities.get());
+
+  // Replace the facility configuration and migrate every board to it.
+  // `renames` maps old lane names to new ones so their cards stay put.
+  socket.on('config:update', ({ config, renames } = {}, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    if (!hasRole(session(), 'admin')) return reply({ errors: ['Only admins can change the configuration'] });
+    const errors = validateFacilityConfig(config);
+    if (errors.length) return reply({ errors });
+    const renameError = validateRenames(renames, facilities.get(), config);
+    if (renameError) return reply({ errors: [renameError] });
+    facilities.save(config);
+    webhooks.migrateLanes(renames || {}, laneKeys(config));
+    for (const entry of boards.migrateAll((state) => migrateBoardLanes(state, config, renames || {}))) {
+      io.to(roomOf(entry.name)).emit('board:state', entry.state);
     }
+    io.emit('config:state', config);
+    reply({ ok: true });
+  });
+
+  // Webhook settings and the delivery log for /admin; the page then follows new deliveries live.
+  socket.on('webhooks:get', (_, ack) => {
+    if (typeof ack !== 'function' || !allowed('admin', ack)) return;
+    socket.join(WEBHOOKS_ROOM);
+    ack({ hooks: webhooks.get(), deliveries: webhooks.deliveries() });
   });
 
-  socket.on('item:patch', ({ id, patch, mtime }) => {
-    if (!id || !patch || !boardState.items[id]) return;
-    boardState.items[id] = { ...boardState.items[id], ...patch };
-    boardState.lastUpdated = mtime || Date.now();
-    socket.broadcast.emit('item:patch:apply', { id, patch, mtime: boardState.lastUpdated });
+  socket.on('webhooks:update', ({ hooks } = {}, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    if (!allowed('admin', reply)) return;
+    const errors = validateWebhooks(hooks, laneKeys(facilities.get()));
+    if (errors.length) return reply({ errors });
+    webhooks.save(hooks);
+    reply({ ok: true });
   });
 
-  socket.on('lanes:move', ({ id, from, to, index, mtime }) => {
-    if (!id || !from || !to) return;
-    const fromArr = (boardState.lanes[from] || []).filter((x) => x !== id);
-    const toArr = [...(boardState.lanes[to] || [])];
-    if (typeof index === 'number') toArr.splice(index, 0, id); else toArr.unshift(id);
-    boardState.lanes = { ...boardState.lanes, [from]: fromArr, [to]: toArr };
-    boardState.lastUpdated = mtime || Date.now();
-    socket.broadcast.emit('lanes:move:apply', { id, from, to, index, mtime: boardState.lastUpdated });
+  socket.on('webhooks:test', ({ id } = {}, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    if (!allowed('admin', reply)) return;
+    const hook = webhooks.get().find((h) => h.id === id);
+    if (!hook) return reply({ error: 'Save the webhook before testing it' });
+    reply({ delivery: webhooks.test(hook) });
+  });
+
+  socket.on('boards:list', () => socket.emit('boards:list', boards.list()));
+
+  socket.on('board:create', ({ name, cloneFrom, withCards } = {}) => {
+    if (!hasRole(session(), 'controller')) return socket.emit('board:error', { message: 'Observers cannot create boards' });
+    if (!isValidBoardName(name)) return socket.emit('board:error', { message: 'Board names use a-z, 0-9 and "-" only' });
+    if (boards.get(name)) return socket.emit('board:error', { message: `Board "${name}" already exists` });
+    const entry = cloneFrom ? boards.clone(name, cloneFrom, !!withCards) : boards.create(name);
+    if (!entry) return socket.emit('board:error', { message: `No board named "${cloneFrom}" to clone` });
+    socket.emit('board:created', { name });
+    io.emit('boards:list', boards.list());
+  });
+
+  socket.on('board:join', (name) => {
+    const entry = boards.get(name);
+    if (!entry) return socket.emit('board:error', { message: `No board named "${name}"`, missing: true });
+    if (board) {
+      socket.leave(roomOf(board.name));
+      socket.data.editing = null;
+      broadcastPresence(board.name);
+    }
+    board = entry;
+    linkManualCards(board);
+    socket.join(roomOf(name));
+    socket.emit('board:state', board.state);
+    socket.emit('vatsim:delta', { connected: trafficFor(board.state), updated: [], disconnected: [], updatedAt: Date.now() });
+    broadcastPresence(name);
+  });
+
+  socket.on('board:pull', () => board && socket.emit('board:state', board.state));
+
+  // Catch up from a known version: replay the missed ops, or send the full state if the log is too short.
+  socket.on('board:sync', ({ since } = {}) => {
+    if (!board) return;
+    const ops = Number.isInteger(since) ? boards.opsSince(board, since) : null;
+    if (ops) socket.emit('op:batch', ops);
+    else socket.emit('board:state', board.state);
+  });
+
+  // Every mutation arrives as a discrete op; the server is the only place versions are assigned.
+  socket.on('op:submit', ({ opId, op } = {}) => {
+    if (!board) return socket.emit('op:reject', { opId, message: 'Join a board first' });
+    if (typeof opId !== 'string' || !opId) return socket.emit('op:reject', { opId, message: 'Missing opId' });
+    if (SERVER_OPS.includes(op?.type)) return socket.emit('op:reject', { opId, message: 'Only the server can do that' });
+    const denied = op && typeof op === 'object' && opPermission(session(), board.state, op, facilities.get());
+    if (denied) return socket.emit('op:reject', { opId, message: denied });
+    // Coordination is recorded against the signed-in position, not whatever the client claims.
+    const stamped = op?.type === 'item:coord' && socket.data.identity ? { ...op, by: socket.data.identity.callsign } : op;
+    const result = submitOp(board, stamped, actor(), opId);
+    if (result.error) return socket.emit('op:reject', { opId, message: result.error });
+    if (result.duplicate) return socket.emit('op:ack', { opId }); // resent after a reconnect; already applied
+  });
+
+  socket.on('item:history', ({ id } = {}, ack) => {
+    if (typeof ack !== 'function') return;
+    ack(board && typeof id === 'string' ? board.history.forItem(id) : []);
+  });
+
+  // Replace the board with a JSON export; the current state is archived first.
+  socket.on('board:restore', (data, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    if (!board) return reply({ error: 'Join a board first' });
+    if (!allowed('admin', reply)) return;
+    const result = readBoardExport(data);
+    if (result.error) return reply({ error: result.error });
+    // Lanes are brought in line with the current configuration like any stored board.
+    boards.restore(board, migrateBoardLanes(result.state, facilities.get()) || result.state);
+    io.to(roomOf(board.name)).emit('board:state', board.state);
+    reply({ ok: true });
+  });
+
+  // A one-minute token for this board's export and report links (see exportAuth).
+  socket.on('board:download', (_, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    if (!board) return reply({ error: 'Join a board first' });
+    if (ACCESS_CODES.length && !socket.data.identity) return reply({ error: 'Sign in to download the board' });
+    reply({ token: sessions.issueDownload(board.name) });
+  });
+
+  // Archive the current board and start from an empty one with the same lanes.
+  socket.on('board:reset', (_, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    if (!board || !allowed('admin', reply)) return;
+    boards.reset(board);
+    io.to(roomOf(board.name)).emit('board:state', board.state);
+    reply({ ok: true });
   });
 });
 
@@ -53,3 +481,11 @@ app.use((_, res) => res.sendFile(path.join(distPath, 'index.html'))); // SPA fal
 
 const PORT = process.env.PORT || 3000;
 server.listen(PORT, () => console.log(`✅ Server + Socket.IO on :${PORT}`));
+
+// Write out any throttled snapshots before exiting.
+for (const sig of ['SIGINT', 'SIGTERM']) {
+  process.on(sig, () => {
+    boards.flushAll();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,195 @@
+import express from 'express';
+import { randomUUID } from 'crypto';
+import { sameSecret } from './auth.mjs';
+import { laneChangePatch } from '../shared/facilities.mjs';
+import { normalizeCard } from '../shared/import.mjs';
+import { applyOp, laneOf, validateOp } from '../shared/ops.mjs';
+import { opPermission, ROLES } from '../shared/permissions.mjs';
+import { opPayloadError } from '../shared/schema.mjs';
+
+// ---- REST API (scripts, bots, scope plugins) ----
+// Every change goes through the same `submit` path as a socket `op:submit`, so it is
+// validated, sequenced, recorded in the card history and broadcast to open boards.
+// Requests carry `Authorization: Bearer <token>`; tokens come from API_TOKENS. A token acts
+// with a role like a signed-in controller, and changes pass the same opPermission checks.
+
+/**
+ * API_TOKENS="discord-bot:0f3c…,controller@Piarco/piarco-bot:77aa…,observer/dashboard:9a71…"
+ * The name is what history records as the author; an optional "role[@facility]/" prefix sets
+ * what the token may change (default: a controller of the home facility). A bare token is
+ * named after its position.
+ * @returns {{ name: string, token: string, role: import('../shared/types').Role, facility: string | null }[]}
+ */
+export function parseApiTokens(value) {
+  return (value || '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((s, i) => {
+      const at = s.lastIndexOf(':');
+      const label = at > 0 ? s.slice(0, at) : `token-${i + 1}`;
+      const token = at > 0 ? s.slice(at + 1) : s;
+      const slash = label.indexOf('/');
+      const [role, facility = null] = slash > 0 ? label.slice(0, slash).split('@') : ['controller'];
+      if (!ROLES.includes(role) || !token) {
+        throw new Error(`Invalid API_TOKENS entry "${label}" (expected [role[@Facility]/]name:token)`);
+      }
+      return { name: slash > 0 ? label.slice(slash + 1) : label, token, role, facility };
+    });
+}
+
+// Request bodies use the card's field names; `fix` is accepted for `waypoint` like in imports.
+const FIELD_KEYS = ['waypoint', 'estimate', 'altitude', 'mach', 'squawk'];
+
+function fieldsFrom(body) {
+  const out = {};
+  for (const k of FIELD_KEYS) if (body[k] !== undefined) out[k] = body[k];
+  if (body.fix !== undefined && out.waypoint === undefined) out.waypoint = body.fix;
+  return out;
+}
+
+const isIndex = (n) => n === undefined || (Number.isInteger(n) && n >= 0);
+
+/**
+ * @param {object} deps
+ * @param {ReturnType<typeof import('./boards.mjs').createBoardRegistry>} deps.boards
+ * @param {{ get(): import('../shared/types').FacilityConfig }} deps.facilities
+ * @param {(entry: any, op: object, actor: string) => { error?: string, entry?: object }} deps.submit
+ * @param {{ name: string, token: string }[]} deps.tokens
+ */
+export function createApiRouter({ boards, facilities, submit, tokens }) {
+  const router = express.Router();
+
+  router.use((req, res, next) => {
+    const presented = (req.get('authorization') || '').replace(/^Bearer\s+/i, '');
+    const match = presented && tokens.find((t) => sameSecret(t.token, presented));
+    if (!match) {
+      const error = tokens.length ? 'Missing or invalid API token' : 'The REST API is disabled (no API_TOKENS configured)';
+      return res.status(401).json({ error });
+    }
+    res.locals.actor = `api:${match.name}`;
+    res.locals.token = match;
+    next();
+  });
+  router.use(express.json());
+
+  function boardOr404(req, res) {
+    const entry = boards.get(req.params.name);
+    if (!entry) res.status(404).json({ error: `No board named "${req.params.name}"` });
+    return entry;
+  }
+
+  // Cards are addressed by id or, for convenience, by callsign.
+  function itemOr404(entry, req, res) {
+    const key = req.params.id;
+    const item = entry.state.items[key] || Object.values(entry.state.items).find((i) => i.callsign.toUpperCase() === key.toUpperCase());
+    if (!item) res.status(404).json({ error: `No card "${key}" on board "${entry.name}"` });
+    return item;
+  }
+
+  const view = (entry, item) => ({ ...item, lane: laneOf(entry.state, item.id) });
+
+  // Why this token may not make `op`, as a 403 sent to the caller, or null.
+  function refuse(entry, op, res) {
+    const config = facilities.get();
+    const { role, facility } = res.locals.token;
+    const denied = opPermission({ role, facility: facility ?? config.homeFacility }, entry.state, op, config);
+    if (denied) res.status(403).json({ error: denied });
+    return denied;
+  }
+
+  // A rejected op is refused for this token, malformed, or a conflict with the board's current
+  // state (card gone, callsign taken…).
+  function commit(entry, op, res) {
+    if (refuse(entry, op, res)) return false;
+    const result = submit(entry, op, res.locals.actor);
+    if (result.error) res.status(opPayloadError(op) ? 400 : 409).json({ error: result.error });
+    return !result.error;
+  }
+
+  router.get('/boards', (_, res) => res.json(boards.list()));
+
+  router.get('/boards/:name', (req, res) => {
+    const entry = boardOr404(req, res);
+    if (!entry) return;
+    const { state } = entry;
+    res.json({
+      name: entry.name,
+      version: state.version,
+      lastUpdated: state.lastUpdated,
+      lanes: Object.keys(state.lanes).map((key) => ({ key, items: state.lanes[key].map((id) => state.items[id]) }))
+    });
+  });
+
+  router.get('/boards/:name/items/:id', (req, res) => {
+    const entry = boardOr404(req, res);
+    const item = entry && itemOr404(entry, req, res);
+    if (item) res.json(view(entry, item));
+  });
+
+  // Same rules as a manual card or an imported row; defaults to the Unassigned lane.
+  router.post('/boards/:name/items', (req, res) => {
+    const entry = boardOr404(req, res);
+    if (!entry) return;
+    const body = req.body || {};
+    if (!isIndex(body.index)) return res.status(400).json({ error: 'Index must be a non-negative integer' });
+    const given = fieldsFrom(body);
+    const result = normalizeCard({ callsign: body.callsign, lane: body.lane, route: body.route, ...given, fix: given.waypoint }, facilities.get());
+    if (result.error) return res.status(400).json({ error: result.error });
+    const { lane, fields } = result.card;
+    const item = { id: randomUUID(), source: 'manual', ...fields };
+    if (!commit(entry, { type: 'item:add', item, lane, index: body.index }, res)) return;
+    res.status(201).json(view(entry, entry.state.items[item.id]));
+  });
+
+  router.patch('/boards/:name/items/:id', (req, res) => {
+    const entry = boardOr404(req, res);
+    const item = entry && itemOr404(entry, req, res);
+    if (!item) return;
+    const given = fieldsFrom(req.body || {});
+    const keys = Object.keys(given);
+    if (!keys.length) return res.status(400).json({ error: `Nothing to change; fields are ${FIELD_KEYS.join(', ')}` });
+    // Run the card with the new values through the normalizer, then keep only the fields that were sent.
+    const raw = { callsign: item.callsign, lane: laneOf(entry.state, item.id), ...given, fix: given.waypoint };
+    const result = normalizeCard(raw, facilities.get());
+    if (result.error) return res.status(400).json({ error: result.error });
+    const patch = Object.fromEntries(keys.map((k) => [k, given[k] === '' ? '' : result.card.fields[k]]));
+    if (!commit(entry, { type: 'item:patch', id: item.id, patch }, res)) return;
+    res.json(view(entry, entry.state.items[item.id]));
+  });
+
+  router.post('/boards/:name/items/:id/move', (req, res) => {
+    const entry = boardOr404(req, res);
+    const item = entry && itemOr404(entry, req, res);
+    if (!item) return;
+    const { lane: to, index } = req.body || {};
+    const move = { type: 'item:move', id: item.id, to, index };
+    const patch = laneOf(entry.state, item.id) === to ? {} : laneChangePatch(item, to, facilities.get().lanes.find((l) => l.key === to));
+    const tidy = Object.keys(patch).length ? { type: 'item:patch', id: item.id, patch } : null;
+    // The lane's housekeeping patch is checked against the moved card before anything changes,
+    // so the card never ends up in the new lane with fields that lane cannot take.
+    if (tidy && !validateOp(entry.state, move)) {
+      const moved = applyOp(entry.state, move);
+      const error = validateOp(moved, tidy);
+      if (error) return res.status(opPayloadError(tidy) ? 400 : 409).json({ error });
+      if (refuse({ ...entry, state: moved }, tidy, res)) return;
+    }
+    if (!commit(entry, move, res)) return;
+    if (tidy && !commit(entry, tidy, res)) return;
+    res.json(view(entry, entry.state.items[item.id]));
+  });
+
+  router.delete('/boards/:name/items/:id', (req, res) => {
+    const entry = boardOr404(req, res);
+    const item = entry && itemOr404(entry, req, res);
+    if (!item) return;
+    if (commit(entry, { type: 'item:delete', id: item.id }, res)) res.status(204).end();
+  });
+
+  // Malformed JSON bodies and anything else that throws.
+  router.use((err, _req, res, _next) => {
+    res.status(err.status || 500).json({ error: err.type === 'entity.parse.failed' ? 'Body is not valid JSON' : err.message });
+  });
+
+  return router;
+}
@@ -0,0 +1,86 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ROLES } from '../shared/permissions.mjs';
+
+// ---- Access codes and signed sessions ----
+// ACCESS_CODES="controller:<code>,controller@Piarco:<code>,admin:<code>". The code entered on
+// the identity form decides the role; "@facility" ties a code to that facility. Without any
+// codes the board is open and every session is an admin, as it was before roles existed.
+
+/** @returns {{ role: import('../shared/types').Role, facility: string | null, code: string }[]} */
+export function parseAccessCodes(value) {
+  return (value || '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((s) => {
+      const at = s.indexOf(':');
+      const [role, facility = null] = s.slice(0, at).split('@');
+      if (at < 1 || !ROLES.includes(role) || role === 'observer' || !s.slice(at + 1)) {
+        throw new Error(`Invalid ACCESS_CODES entry "${s.slice(0, at) || s}" (expected controller[@Facility]:code or admin:code)`);
+      }
+      return { role, facility, code: s.slice(at + 1) };
+    });
+}
+
+const digest = (s) => createHash('sha256').update(String(s)).digest();
+
+/** Constant-time comparison of two secrets, whatever their length or encoding. */
+export const sameSecret = (a, b) => timingSafeEqual(digest(a), digest(b));
+
+/** The role a session starts with before (or without) entering a code. */
+export const defaultRole = (codes) => (codes.length ? 'observer' : 'admin');
+
+/**
+ * @param {ReturnType<typeof parseAccessCodes>} codes
+ * @param {string | undefined} code
+ * @param {string} facility
+ * @returns {{ role?: import('../shared/types').Role, error?: string }}
+ */
+export function roleForCode(codes, code, facility) {
+  if (!codes.length || !code) return { role: defaultRole(codes) };
+  const match = codes.find((c) => sameSecret(c.code, String(code)));
+  if (!match) return { error: 'Wrong access code' };
+  if (match.facility && match.facility !== facility) return { error: `That code is for ${match.facility} controllers` };
+  return { role: match.role };
+}
+
+const SESSION_HOURS = 12;
+const DOWNLOAD_SECONDS = 60;
+
+// Sessions are HMAC-signed so a reconnecting tab (or /admin in another tab) keeps its role
+// without storing the access code. Without SESSION_SECRET they last until the server restarts.
+// Download tokens go into export URLs instead of the session: they are signed for that purpose
+// only, name one board and expire within a minute.
+export function createSessionTokens(secret = randomBytes(32).toString('hex')) {
+  // Sessions sign the bare body (as they always have); other purposes prefix theirs.
+  const sign = (purpose, body) => createHmac('sha256', secret).update(purpose ? `${purpose}:${body}` : body).digest('base64url');
+
+  function seal(purpose, payload, ttlMs) {
+    const body = Buffer.from(JSON.stringify({ ...payload, exp: Date.now() + ttlMs })).toString('base64url');
+    return `${body}.${sign(purpose, body)}`;
+  }
+
+  function open(purpose, token) {
+    if (typeof token !== 'string') return null;
+    const [body, sig] = token.split('.');
+    if (!body || !sig || !sameSecret(sig, sign(purpose, body))) return null;
+    try {
+      const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+      return payload.exp > Date.now() ? payload : null;
+    } catch {
+      return null;
+    }
+  }
+
+  const issue = (session) => seal('', session, SESSION_HOURS * 3_600_000);
+
+  /** @returns {{ identity: object, role: string } | null} */
+  const verify = (token) => open('', token);
+
+  const issueDownload = (board) => seal('download', { board }, DOWNLOAD_SECONDS * 1000);
+
+  /** Whether `token` is a current download token for `board`. */
+  const verifyDownload = (token, board) => open('download', token)?.board === board;
+
+  return { issue, verify, issueDownload, verifyDownload };
+}
@@ -0,0 +1,168 @@
+import fs from 'fs';
+import path from 'path';
+import { createBoardStore } from './persistence.mjs';
+import { createHistoryStore, describeOp } from './history.mjs';
+import { applySequenced, validateOp } from '../shared/ops.mjs';
+
+// ---- Named boards ----
+// Each board is an independent BoardState with its own snapshot file in
+// DATA_DIR/boards/<name>.json, archives in DATA_DIR/archive/<name>/ and card
+// history in DATA_DIR/history/<name>.jsonl.
+
+// URL-safe, lower-case names such as "fnm-2026-10-24" or "training".
+export const isValidBoardName = (name) => typeof name === 'string' && /^[a-z0-9][a-z0-9-]{0,63}$/.test(name);
+
+export const emptyBoard = (laneKeys, version = 0) => ({
+  lanes: Object.fromEntries(laneKeys.map((k) => [k, []])),
+  items: {},
+  lastUpdated: Date.now(),
+  version
+});
+
+// Recent sequenced ops kept per board so reconnecting clients can catch up without a full resync.
+const LOG_LIMIT = 500;
+
+// `laneKeys()` returns the configured lanes, in display order, for new boards.
+export function createBoardRegistry({ dataDir, laneKeys, throttleMs, archiveKeep, maxAgeHours = 0 }) {
+  const boardsDir = path.join(dataDir, 'boards');
+  const boards = new Map(); // name -> { name, state, store, log, history }
+
+  function storeFor(name) {
+    return createBoardStore({
+      dir: boardsDir,
+      name,
+      archiveDir: path.join(dataDir, 'archive', name),
+      throttleMs,
+      archiveKeep
+    });
+  }
+
+  const historyFor = (name) => createHistoryStore({ dir: path.join(dataDir, 'history'), name });
+
+  function load(name) {
+    const store = storeFor(name);
+    let state = store.load();
+    if (!state) return null;
+    state.version ??= 0; // snapshots from before operation sequencing
+    // Retention: a board untouched for longer than maxAgeHours is archived and emptied.
+    if (maxAgeHours && Date.now() - (state.lastUpdated || 0) > maxAgeHours * 3_600_000) {
+      const archived = store.archive(state, 'expired');
+      console.log(`🗄️  Board "${name}" older than ${maxAgeHours}h ${archived ? `archived to ${archived}` : 'emptied'}`);
+      state = emptyBoard(Object.keys(state.lanes), state.version + 1);
+      store.save(state);
+    }
+    const entry = { name, state, store, log: [], history: historyFor(name) };
+    boards.set(name, entry);
+    return entry;
+  }
+
+  function get(name) {
+    if (!isValidBoardName(name)) return null;
+    return boards.get(name) || load(name);
+  }
+
+  function create(name, state = emptyBoard(laneKeys())) {
+    const entry = { name, state, store: storeFor(name), log: [], history: historyFor(name) };
+    boards.set(name, entry);
+    entry.store.save(state);
+    return entry;
+  }
+
+  // Copy another board's lane layout (and optionally its cards) into a new board.
+  function clone(name, fromName, withCards = false) {
+    const src = get(fromName);
+    if (!src) return null;
+    const state = withCards
+      ? { ...structuredClone(src.state), lastUpdated: Date.now(), version: 0 }
+      : emptyBoard(Object.keys(src.state.lanes));
+    return create(name, state);
+  }
+
+  function save(entry) {
+    entry.store.save(entry.state);
+  }
+
+  // Validate an op against the board, stamp it with the next sequence number, apply it
+  // and record it in the card's history. Returns { error } or { entry: SequencedOp }.
+  function commit(entry, opId, op, actor) {
+    if (entry.log.some((e) => e.opId === opId)) return { duplicate: true };
+    const error = validateOp(entry.state, op);
+    if (error) return { error };
+    const ts = Date.now();
+    const sequenced = { seq: entry.state.version + 1, opId, ts, op: { ...op, at: ts } };
+    // An op validateOp let through but applyOp cannot handle is refused, not allowed to take the server down.
+    let state;
+    try {
+      state = applySequenced(entry.state, sequenced);
+    } catch (e) {
+      console.error(`⚠️  Could not apply ${op.type} on "${entry.name}":`, e.message);
+      return { error: 'The board could not apply that change' };
+    }
+    entry.history.append(describeOp(entry.state, sequenced, actor));
+    entry.state = state;
+    entry.log.push(sequenced);
+    if (entry.log.length > LOG_LIMIT) entry.log.shift();
+    save(entry);
+    return { entry: sequenced };
+  }
+
+  // Ops after `version`, or null when the log no longer reaches back that far.
+  function opsSince(entry, version) {
+    if (version === entry.state.version) return [];
+    const first = entry.log[0];
+    if (!first || first.seq > version + 1 || version > entry.state.version) return null;
+    return entry.log.filter((e) => e.seq > version);
+  }
+
+  function reset(entry) {
+    entry.store.archive(entry.state, 'reset');
+    entry.state = emptyBoard(Object.keys(entry.state.lanes), entry.state.version + 1);
+    entry.log = [];
+    save(entry);
+  }
+
+  // Replace the board with an exported one (archiving the current state first).
+  function restore(entry, state) {
+    entry.store.archive(entry.state, 'restore');
+    entry.state = { ...state, version: entry.state.version + 1 };
+    entry.log = [];
+    save(entry);
+  }
+
+  function list() {
+    if (fs.existsSync(boardsDir)) {
+      for (const f of fs.readdirSync(boardsDir)) {
+        const name = f.replace(/\.json$/, '');
+        if (f.endsWith('.json') && isValidBoardName(name)) get(name);
+      }
+    }
+    return [...boards.values()]
+      .map(({ name, state }) => ({ name, cards: Object.keys(state.items).length, lastUpdated: state.lastUpdated }))
+      .sort((a, b) => b.lastUpdated - a.lastUpdated);
+  }
+
+  // Rewrite every board (on disk or in memory) through `fn(state)`; boards for which it
+  // returns a new state get a fresh version and an empty op log, like a reset.
+  function migrateAll(fn) {
+    list(); // loads every board on disk
+    const changed = [];
+    for (const entry of boards.values()) {
+      const next = fn(entry.state);
+      if (!next) continue;
+      entry.state = { ...next, version: entry.state.version + 1, lastUpdated: Date.now() };
+      entry.log = [];
+      save(entry);
+      changed.push(entry);
+    }
+    return changed;
+  }
+
+  // Boards currently held in memory (the ones clients have opened since startup).
+  const loaded = () => [...boards.values()];
+
+  function flushAll() {
+    for (const entry of boards.values()) entry.store.flush();
+  }
+
+  return { get, create, clone, commit, opsSince, reset, restore, list, loaded, migrateAll, flushAll };
+}
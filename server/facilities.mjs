@@ -0,0 +1,78 @@
+import fs from 'fs';
+import path from 'path';
+import { writeAtomicSync } from './persistence.mjs';
+import { draftCoordination } from '../shared/coordination.mjs';
+import { INBOX_LANE, laneKeys, validateFacilityConfig } from '../shared/facilities.mjs';
+
+// ---- Facility configuration store ----
+// The shipped defaults live in config/facilities.json. Edits from /admin are
+// written to DATA_DIR/facilities.json, which takes precedence on startup.
+
+export function createFacilityStore({ defaultsFile, dataDir }) {
+  const overrideFile = path.join(dataDir, 'facilities.json');
+  const file = fs.existsSync(overrideFile) ? overrideFile : defaultsFile;
+
+  let config;
+  try {
+    config = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    throw new Error(`Cannot read facility configuration ${file}: ${e.message}`);
+  }
+  const errors = validateFacilityConfig(config);
+  if (errors.length) throw new Error(`Invalid facility configuration ${file}:\n  - ${errors.join('\n  - ')}`);
+
+  function save(next) {
+    fs.mkdirSync(dataDir, { recursive: true });
+    writeAtomicSync(overrideFile, JSON.stringify(next, null, 2));
+    config = next;
+  }
+
+  return { get: () => config, save, file };
+}
+
+/**
+ * Validate a rename map { oldKey: newKey } against the current and next configuration.
+ * @returns {string | null}
+ */
+export function validateRenames(renames, current, next) {
+  if (!renames || typeof renames !== 'object') return null;
+  const before = laneKeys(current);
+  const after = laneKeys(next);
+  for (const [from, to] of Object.entries(renames)) {
+    if (!before.includes(from)) return `Cannot rename unknown lane "${from}"`;
+    if (!after.includes(to)) return `Renamed lane "${to}" is missing from the new configuration`;
+    if (from === INBOX_LANE && to !== INBOX_LANE) return `The "${INBOX_LANE}" lane cannot be renamed`;
+  }
+  return null;
+}
+
+/**
+ * Re-key a board's lanes for a new configuration. Renamed lanes keep their cards
+ * (and coordination); cards from removed lanes go back to Unassigned as drafts.
+ * Returns null when nothing changed.
+ */
+export function migrateBoardLanes(state, config, renames = {}) {
+  const keys = laneKeys(config);
+  const lanes = Object.fromEntries(keys.map((k) => [k, []]));
+  const items = { ...state.items };
+  let changed = Object.keys(state.lanes).join('\u0000') !== keys.join('\u0000');
+  for (const [old, ids] of Object.entries(state.lanes)) {
+    const target = renames[old] ?? old;
+    if (lanes[target]) {
+      lanes[target].push(...ids);
+      if (target !== old) changed = true;
+    } else {
+      lanes[INBOX_LANE].push(...ids);
+      ids.forEach((id) => items[id] && (items[id] = { ...items[id], coord: draftCoordination() }));
+      changed = true;
+    }
+  }
+  // Completed cards remember the lane they left under its new name; removed lanes are kept
+  // as they were, so such a card is reactivated into another lane.
+  let completed = state.completed;
+  if (completed && Object.values(completed).some((c) => (renames[c.lane] ?? c.lane) !== c.lane)) {
+    completed = Object.fromEntries(Object.entries(completed).map(([id, c]) => [id, { ...c, lane: renames[c.lane] ?? c.lane }]));
+    changed = true;
+  }
+  return changed ? { ...state, lanes, items, ...(completed && { completed }) } : null;
+}
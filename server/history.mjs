@@ -0,0 +1,105 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { laneOf } from '../shared/ops.mjs';
+
+// ---- Per-card audit history ----
+// One append-only JSONL file per board (DATA_DIR/history/<name>.jsonl). Lines are
+// never rewritten, so the history survives resets and can be grepped offline.
+
+const OP_KINDS = {
+  'item:add': 'add',
+  'item:patch': 'patch',
+  'item:move': 'move',
+  'item:reorder': 'reorder',
+  'item:delete': 'delete',
+  'item:coord': 'coord',
+  'item:link': 'link',
+  'item:sync': 'sync',
+  'item:complete': 'complete',
+  'item:reactivate': 'reactivate'
+};
+
+/**
+ * Describe what a sequenced op did to its card, using the state *before* it applied.
+ * @returns {import('../shared/types').HistoryEntry}
+ */
+export function describeOp(before, { seq, ts, op }, actor) {
+  const id = op.type === 'item:add' ? op.item.id : op.id;
+  const item = op.type === 'item:add' ? op.item : op.type === 'item:reactivate' ? before.completed?.[id]?.item : before.items[id];
+  const lane = laneOf(before, id);
+  const entry = { seq, at: ts, actor, itemId: id, callsign: item?.callsign || '', type: OP_KINDS[op.type] };
+  switch (op.type) {
+    case 'item:add':
+      return { ...entry, to: op.lane, index: op.index ?? 0, restored: !!op.restore };
+    case 'item:patch':
+      return {
+        ...entry,
+        changes: Object.fromEntries(
+          Object.entries(op.patch)
+            .filter(([k, v]) => item[k] !== v)
+            .map(([k, v]) => [k, [item[k] ?? '', v]])
+        )
+      };
+    case 'item:move':
+      return { ...entry, from: lane, to: op.to, index: op.index ?? 0 };
+    case 'item:reorder':
+      return { ...entry, from: lane, to: lane, fromIndex: before.lanes[lane].indexOf(id), index: op.index };
+    case 'item:delete':
+    case 'item:complete':
+      return { ...entry, from: lane, fromIndex: before.lanes[lane]?.indexOf(id) ?? -1 };
+    case 'item:reactivate':
+      return { ...entry, from: before.completed?.[id]?.lane, to: op.lane, index: op.index ?? 0 };
+    case 'item:coord':
+      return { ...entry, action: op.action, counter: op.counter };
+    case 'item:link':
+      return {
+        ...entry,
+        cid: op.cid,
+        changes: Object.fromEntries(Object.entries(op.fill).map(([k, v]) => [k, [String(item[k] ?? ''), String(v)]]))
+      };
+    case 'item:sync':
+      return {
+        ...entry,
+        lastSeen: op.lastSeen,
+        changes: Object.fromEntries(Object.entries(op.fill).map(([k, v]) => [k, [String(item[k] ?? ''), String(v)]]))
+      };
+    default:
+      return entry;
+  }
+}
+
+export function createHistoryStore({ dir, name }) {
+  const file = path.join(dir, `${name}.jsonl`);
+  fs.mkdirSync(dir, { recursive: true });
+
+  // itemId -> entries, loaded once from disk
+  const byItem = new Map();
+  if (fs.existsSync(file)) {
+    for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const e = JSON.parse(line);
+        if (!byItem.has(e.itemId)) byItem.set(e.itemId, []);
+        byItem.get(e.itemId).push(e);
+      } catch {
+        // a torn last line from a crash; everything before it is intact
+      }
+    }
+  }
+
+  let writing = Promise.resolve();
+
+  function append(entry) {
+    if (!byItem.has(entry.itemId)) byItem.set(entry.itemId, []);
+    byItem.get(entry.itemId).push(entry);
+    const line = `${JSON.stringify(entry)}\n`;
+    writing = writing
+      .then(() => fsp.appendFile(file, line))
+      .catch((e) => console.error(`⚠️  Failed to append to ${file}:`, e.message));
+  }
+
+  const forItem = (itemId) => byItem.get(itemId) || [];
+
+  return { append, forItem };
+}
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+
+// ---- Durable board snapshots ----
+// The board is written as a single JSON snapshot. Writes go to a temp file that
+// is fsync'd and then renamed over the snapshot, so a crash mid-write leaves
+// either the previous or the new snapshot on disk, never a torn file. Every write
+// gets its own temp file, so a shutdown flush never shares one with a save in flight.
+
+let tmpCount = 0;
+const tmpFile = (file) => `${file}.${process.pid}-${++tmpCount}.tmp`;
+
+export function writeAtomicSync(file, data) {
+  const tmp = tmpFile(file);
+  const fd = fs.openSync(tmp, 'w');
+  try {
+    fs.writeSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tmp, file);
+}
+
+/** Like writeAtomicSync; the rename is skipped once `current()` says newer data was written. */
+async function writeAtomic(file, data, current = () => true) {
+  const tmp = tmpFile(file);
+  const handle = await fsp.open(tmp, 'w');
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  if (current()) await fsp.rename(tmp, file);
+  else await fsp.rm(tmp, { force: true });
+}
+
+function stamp(ts = Date.now()) {
+  return new Date(ts).toISOString().replace(/[:.]/g, '-');
+}
+
+/**
+ * Snapshot store for one board.
+ * - `load()` returns the last saved state (or null when there is none / it is unreadable)
+ * - `save(state)` schedules a throttled write; the latest state always wins
+ * - `flush()` writes any pending state synchronously (used on shutdown)
+ * - `archive(state, reason)` copies the state into `archiveDir` and prunes old archives;
+ *   with `archiveKeep` 0 nothing is kept and it returns null
+ */
+export function createBoardStore({ dir, name, archiveDir = path.join(dir, 'archive', name), throttleMs = 1000, archiveKeep = 20 }) {
+  const file = path.join(dir, `${name}.json`);
+  const keep = Number.isInteger(archiveKeep) && archiveKeep >= 0 ? archiveKeep : 20;
+  fs.mkdirSync(dir, { recursive: true });
+
+  let pending = null;   // latest state waiting to be written
+  let timer = null;
+  let writing = Promise.resolve();
+  let generation = 0;   // bumped by every write, so an older one never lands over a newer one
+
+  function load() {
+    // Leftover temp files from a crash.
+    for (const f of fs.readdirSync(dir)) {
+      if (f.startsWith(`${name}.json.`) && f.endsWith('.tmp')) fs.rmSync(path.join(dir, f), { force: true });
+    }
+    if (!fs.existsSync(file)) return null;
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+      if (!parsed || typeof parsed !== 'object' || !parsed.lanes || !parsed.items) {
+        throw new Error('snapshot is missing lanes/items');
+      }
+      return parsed;
+    } catch (e) {
+      // Keep the unreadable file around for inspection instead of overwriting it.
+      const aside = `${file}.corrupt-${stamp()}`;
+      fs.renameSync(file, aside);
+      console.error(`⚠️  Could not read ${file} (${e.message}); moved to ${aside}`);
+      return null;
+    }
+  }
+
+  function writeNow() {
+    timer = null;
+    if (!pending) return writing;
+    const data = JSON.stringify(pending);
+    pending = null;
+    const gen = ++generation;
+    writing = writing
+      .then(() => writeAtomic(file, data, () => gen === generation))
+      .catch((e) => console.error(`⚠️  Failed to save ${file}:`, e.message));
+    return writing;
+  }
+
+  function save(state) {
+    pending = state;
+    if (!timer) timer = setTimeout(writeNow, throttleMs);
+  }
+
+  function flush() {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (!pending) return;
+    generation++;
+    writeAtomicSync(file, JSON.stringify(pending));
+    pending = null;
+  }
+
+  function listArchives() {
+    if (!fs.existsSync(archiveDir)) return [];
+    return fs
+      .readdirSync(archiveDir)
+      .filter((f) => f.endsWith('.json'))
+      .sort(); // ISO stamps sort chronologically
+  }
+
+  function archive(state, reason = 'reset') {
+    const target = keep > 0 ? path.join(archiveDir, `${stamp()}-${reason}.json`) : null;
+    if (target) {
+      fs.mkdirSync(archiveDir, { recursive: true });
+      writeAtomicSync(target, JSON.stringify(state));
+    }
+    const all = listArchives();
+    for (const old of all.slice(0, Math.max(0, all.length - keep))) {
+      fs.rmSync(path.join(archiveDir, old), { force: true });
+    }
+    return target;
+  }
+
+  return { file, load, save, flush, archive, listArchives };
+}
@@ -0,0 +1,38 @@
+// ---- Controller identity & presence ----
+
+const CID_RE = /^\d{6,8}$/;                 // VATSIM CID
+const CALLSIGN_RE = /^[A-Z0-9]{2,8}(_[A-Z0-9]{1,4}){0,2}$/; // e.g. TJZS_CTR, TJSJ_APP, TNCF_I_CTR
+
+/**
+ * Validate what a client claims about itself on join.
+ * @returns {{ identity?: { cid: string, callsign: string, facility: string }, error?: string }}
+ */
+export function normalizeIdentity(raw, facilities) {
+  const cid = String(raw?.cid ?? '').trim();
+  const callsign = String(raw?.callsign ?? '').trim().toUpperCase();
+  const facility = String(raw?.facility ?? '').trim();
+  if (!CID_RE.test(cid)) return { error: 'CID must be 6–8 digits' };
+  if (!CALLSIGN_RE.test(callsign)) return { error: 'Position callsign looks like TJZS_CTR' };
+  if (!facilities.includes(facility)) return { error: `Unknown facility "${facility}"` };
+  return { identity: { cid, callsign, facility } };
+}
+
+// How a session is named in history and coordination records.
+export const actorName = (identity, socket) =>
+  identity ? `${identity.callsign} (${identity.cid})` : `guest-${socket.id.slice(0, 4)}`;
+
+/** Everyone connected to a room, with what they are currently editing. */
+export function presenceList(io, room) {
+  const ids = io.sockets.adapter.rooms.get(room) || new Set();
+  return [...ids]
+    .map((id) => io.sockets.sockets.get(id))
+    .filter(Boolean)
+    .map((s) => ({
+      sid: s.id,
+      cid: s.data.identity?.cid || null,
+      callsign: s.data.identity?.callsign || null,
+      facility: s.data.identity?.facility || null,
+      role: s.data.role,
+      editing: s.data.editing || null
+    }));
+}
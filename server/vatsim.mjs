@@ -0,0 +1,180 @@
+import fsp from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { fmtFL, parseWaypointsFromRoute } from '../shared/format.mjs';
+
+// ---- VATSIM feed proxy ----
+// The server polls the data feed once for every client, keeps the normalized
+// pilots in memory and reports what changed between polls. The source can be
+// the live feed, another URL, or a local JSON file (re-read on every poll, so
+// editing a fixture simulates traffic movement while offline).
+
+export const DEFAULT_FEED_URL = 'https://data.vatsim.net/v3/vatsim-data.json';
+
+/** @returns {import('../shared/types').VatsimPilot} */
+export function normalizePilot(p) {
+  return {
+    callsign: p.callsign,
+    cid: p.cid ?? null,
+    altitude: p.altitude ?? 0,
+    groundspeed: p.groundspeed ?? 0,
+    heading: p.heading ?? null,
+    latitude: p.latitude,
+    longitude: p.longitude,
+    transponder: p.transponder ?? null,
+    planned_depairport: p.planned_depairport ?? p.flight_plan?.departure ?? null,
+    planned_destairport: p.planned_destairport ?? p.flight_plan?.arrival ?? null,
+    flight_plan: p.flight_plan
+      ? {
+          departure: p.flight_plan.departure ?? null,
+          arrival: p.flight_plan.arrival ?? null,
+          altitude: p.flight_plan.altitude ?? null,
+          route: p.flight_plan.route ?? null,
+          assigned_transponder: p.flight_plan.assigned_transponder ?? null
+        }
+      : null
+  };
+}
+
+/**
+ * The `item:link` op that ties a manual card to its now-connected pilot. Only blank
+ * fields are filled from the flight plan; anything typed in by a controller stays.
+ * @param {import('../shared/types').BoardItem} item
+ * @param {import('../shared/types').VatsimPilot} pilot
+ * @returns {import('../shared/types').BoardOp}
+ */
+export function linkOp(item, pilot) {
+  const fp = pilot.flight_plan;
+  const fill = {};
+  if (!item.routeWaypoints.length && fp?.route) fill.routeWaypoints = parseWaypointsFromRoute(fp.route);
+  if (!item.altitude && fp?.altitude) fill.altitude = fmtFL(String(fp.altitude));
+  if (!item.squawk && /^[0-7]{4}$/.test(fp?.assigned_transponder || '')) fill.squawk = fp.assigned_transponder;
+  return { type: 'item:link', id: item.id, cid: pilot.cid, fill };
+}
+
+/** Cards that follow a live pilot: picked from the feed, or manual ones once linked. */
+export const followsFeed = (item) => item.source === 'vatsim' || !!item.vatsimCid;
+
+/**
+ * The `item:sync` op that brings a card in step with its pilot, or null when nothing changed.
+ * The filed route always wins. The squawk is taken when the pilot changes it (`prevSquawk`
+ * is what they squawked at the last poll, undefined when not seen yet), so a code typed in
+ * by a controller stays until the pilot sets a new one. A missing pilot marks the card
+ * with `lastSeen`; their return clears it.
+ * @param {import('../shared/types').BoardItem} item
+ * @param {import('../shared/types').VatsimPilot | null} pilot
+ * @param {string | undefined} prevSquawk
+ * @param {number} lastSeen  when a pilot missing now was last in the feed
+ * @returns {import('../shared/types').BoardOp | null}
+ */
+export function syncOp(item, pilot, prevSquawk, lastSeen) {
+  if (!pilot) return item.lastSeen ? null : { type: 'item:sync', id: item.id, fill: {}, lastSeen };
+  const fill = {};
+  const route = pilot.flight_plan?.route?.trim() || '';
+  if (route && route !== (item.route ?? '')) {
+    fill.route = route;
+    fill.routeWaypoints = parseWaypointsFromRoute(route);
+  }
+  const squawk = pilot.transponder;
+  const squawkChanged = prevSquawk === undefined ? !item.squawk : prevSquawk !== squawk;
+  if (/^[0-7]{4}$/.test(squawk || '') && squawk !== item.squawk && squawkChanged) fill.squawk = squawk;
+  if (!Object.keys(fill).length && !item.lastSeen) return null;
+  return { type: 'item:sync', id: item.id, fill, lastSeen: null };
+}
+
+async function readSource(source) {
+  if (/^https?:\/\//.test(source)) {
+    const res = await fetch(source, { headers: { 'cache-control': 'no-cache' } });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return res.json();
+  }
+  const file = source.startsWith('file:') ? fileURLToPath(source) : source;
+  return JSON.parse(await fsp.readFile(file, 'utf8'));
+}
+
+/**
+ * Poll `source` every `intervalMs` and call `onDelta({ connected, updated, disconnected, updatedAt, previousAt })`,
+ * `previousAt` being the poll before (when disconnected pilots were last seen).
+ * `search(q)` / `get(callsign)` answer from the cached copy.
+ * The next poll is scheduled once the previous one has finished, so a slow feed never overlaps.
+ */
+export function createVatsimFeed({ source = DEFAULT_FEED_URL, intervalMs = 15_000, onDelta = () => {}, onStatus = () => {} }) {
+  const pilots = new Map();   // callsign -> normalized pilot
+  const signature = new Map(); // callsign -> JSON of the last seen pilot, for change detection
+  let status = { count: 0, updatedAt: null, error: null, source };
+  let timer = null;
+  let stopped = true;
+
+  // The feed read and diffed against the cached copy; throws when it cannot be loaded or read.
+  async function load() {
+    const data = await readSource(source);
+    const seen = new Set();
+    const updatedAt = Date.now();
+    const delta = { connected: [], updated: [], disconnected: [], updatedAt, previousAt: status.updatedAt ?? updatedAt };
+    for (const raw of data?.pilots || []) {
+      if (!raw?.callsign) continue;
+      const pilot = normalizePilot(raw);
+      const sig = JSON.stringify(pilot);
+      seen.add(pilot.callsign);
+      if (!pilots.has(pilot.callsign)) delta.connected.push(pilot);
+      else if (signature.get(pilot.callsign) !== sig) delta.updated.push(pilot);
+      pilots.set(pilot.callsign, pilot);
+      signature.set(pilot.callsign, sig);
+    }
+    for (const callsign of pilots.keys()) {
+      if (seen.has(callsign)) continue;
+      pilots.delete(callsign);
+      signature.delete(callsign);
+      delta.disconnected.push(callsign);
+    }
+    return delta;
+  }
+
+  async function poll() {
+    let delta;
+    try {
+      delta = await load();
+    } catch (e) {
+      // Keep serving the last good copy; clients see the error in the status line.
+      status = { ...status, error: e?.message || 'Failed to load VATSIM data' };
+      onStatus(status);
+      return;
+    }
+    status = { ...status, count: pilots.size, updatedAt: delta.updatedAt, error: null };
+    // A failing consumer is a server bug, not a feed outage: logged, and the feed keeps polling.
+    try {
+      onStatus(status);
+      if (delta.connected.length || delta.updated.length || delta.disconnected.length) onDelta(delta);
+    } catch (e) {
+      console.error('⚠️  VATSIM update handler failed:', e);
+    }
+  }
+
+  async function tick() {
+    await poll();
+    if (!stopped) timer = setTimeout(tick, intervalMs);
+  }
+
+  function start() {
+    if (!stopped) return;
+    stopped = false;
+    tick();
+  }
+
+  function stop() {
+    stopped = true;
+    clearTimeout(timer);
+  }
+
+  function search(q = '', limit = 50) {
+    const needle = String(q).trim().toLowerCase();
+    if (!needle) return [];
+    const out = [];
+    for (const p of pilots.values()) {
+      if (p.callsign.toLowerCase().includes(needle)) out.push(p);
+      if (out.length >= limit) break;
+    }
+    return out;
+  }
+
+  return { start, stop, search, get: (callsign) => pilots.get(callsign) || null, status: () => status };
+}
@@ -0,0 +1,216 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { writeAtomicSync } from './persistence.mjs';
+import { COORD_LABELS, coordOf } from '../shared/coordination.mjs';
+import { cardUrgency } from '../shared/deadlines.mjs';
+import { messageValues, templateMessage } from '../shared/messages.mjs';
+import { laneOf } from '../shared/ops.mjs';
+import { hookWants } from '../shared/webhooks.mjs';
+
+// ---- Outbound webhooks ----
+// Hooks are edited on /admin and saved to DATA_DIR/webhooks.json. Board changes become
+// events; every enabled hook that wants one gets a delivery, retried with backoff.
+// Deliveries are kept in memory for /admin and appended to DATA_DIR/webhooks/deliveries.jsonl.
+
+// Wait before each retry; a delivery is given up after the last one.
+export const RETRY_DELAYS_MS = [5_000, 30_000, 120_000, 600_000];
+const TIMEOUT_MS = 10_000;
+const LOG_LIMIT = 200;
+// A card is reported overdue once, if the server sees it within this many minutes of its estimate.
+const OVERDUE_WINDOW_MINUTES = 5;
+
+/**
+ * Webhook events caused by a sequenced op, from the board before and after it applied.
+ * Reorders, reactivations and feed links and syncs are not reported.
+ */
+export function eventsForOp(before, after, { ts, op }) {
+  switch (op.type) {
+    case 'item:add':
+      return [{ type: 'card.added', at: ts, lane: op.lane, item: after.items[op.item.id] }];
+    case 'item:move': {
+      const from = laneOf(before, op.id);
+      return from === op.to ? [] : [{ type: 'card.moved', at: ts, lane: op.to, from, item: after.items[op.id] }];
+    }
+    case 'item:patch': {
+      const prev = before.items[op.id];
+      const changes = Object.fromEntries(
+        Object.entries(op.patch)
+          .filter(([k, v]) => prev[k] !== v)
+          .map(([k, v]) => [k, [prev[k] ?? '', v]])
+      );
+      if (!Object.keys(changes).length) return [];
+      return [{ type: 'card.changed', at: ts, lane: laneOf(after, op.id), changes, item: after.items[op.id] }];
+    }
+    case 'item:coord': {
+      const item = after.items[op.id];
+      return [{ type: 'card.coordinated', at: ts, lane: laneOf(after, op.id), action: op.action, status: coordOf(item).status, by: op.by ?? null, item }];
+    }
+    case 'item:complete':
+      return [{ type: 'card.completed', at: ts, lane: laneOf(before, op.id), item: before.items[op.id] }];
+    case 'item:delete':
+      return [{ type: 'card.removed', at: ts, lane: laneOf(before, op.id), item: before.items[op.id] }];
+    default:
+      return [];
+  }
+}
+
+function summary(event) {
+  switch (event.type) {
+    case 'card.added':
+      return `added to ${event.lane}`;
+    case 'card.moved':
+      return `moved to ${event.lane} (from ${event.from})`;
+    case 'card.changed':
+      return `changed in ${event.lane}: ${Object.entries(event.changes)
+        .map(([k, [a, b]]) => `${k} ${a || '—'} → ${b || '—'}`)
+        .join(', ')}`;
+    case 'card.coordinated':
+      return `${COORD_LABELS[event.status].toLowerCase()} in ${event.lane}${event.by ? ` by ${event.by}` : ''}`;
+    case 'card.completed':
+      return `completed in ${event.lane}`;
+    case 'card.removed':
+      return `removed from ${event.lane}`;
+    case 'card.overdue':
+      return `passed its ${event.item.estimate}Z estimate in ${event.lane}`;
+    default:
+      return `test message for ${event.lane}`;
+  }
+}
+
+/** The request body a hook receives for `event`. */
+export function webhookPayload(hook, event, board, config) {
+  if (hook.format === 'discord') {
+    const lane = config.lanes.find((l) => l.key === event.lane);
+    return {
+      username: 'Coordination board',
+      content: `**${event.item.callsign}** ${summary(event)} on board \`${board}\``,
+      embeds: [
+        {
+          description: templateMessage(lane?.copyFormat, messageValues(event.item, event.lane)),
+          color: lane ? parseInt(lane.color.slice(1), 16) : undefined,
+          timestamp: new Date(event.at).toISOString()
+        }
+      ]
+    };
+  }
+  const { type, at, item, ...rest } = event;
+  return { event: type, board, at: new Date(at).toISOString(), ...rest, card: item };
+}
+
+export function createWebhooks({ dataDir, getConfig, onDelivery = () => {} }) {
+  const file = path.join(dataDir, 'webhooks.json');
+  const logFile = path.join(dataDir, 'webhooks', 'deliveries.jsonl');
+  let hooks = [];
+  if (fs.existsSync(file)) {
+    try {
+      hooks = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+      throw new Error(`Cannot read webhooks ${file}: ${e.message}`);
+    }
+  }
+
+  const deliveries = []; // oldest first
+  let writing = Promise.resolve();
+  let overdueSent = new Set(); // board:itemId:estimate
+
+  function save(next) {
+    fs.mkdirSync(dataDir, { recursive: true });
+    writeAtomicSync(file, JSON.stringify(next, null, 2));
+    hooks = next;
+  }
+
+  // Lane filters follow renamed lanes and drop removed ones.
+  function migrateLanes(renames, laneKeys) {
+    const next = hooks.map((h) => ({
+      ...h,
+      lanes: [...new Set(h.lanes.map((l) => renames[l] ?? l))].filter((l) => laneKeys.includes(l))
+    }));
+    if (JSON.stringify(next) !== JSON.stringify(hooks)) save(next);
+  }
+
+  function record(d) {
+    d.updatedAt = Date.now();
+    if (!deliveries.includes(d)) deliveries.push(d);
+    if (deliveries.length > LOG_LIMIT) deliveries.shift();
+    const line = `${JSON.stringify(d)}\n`;
+    writing = writing
+      .then(() => fsp.mkdir(path.dirname(logFile), { recursive: true }))
+      .then(() => fsp.appendFile(logFile, line))
+      .catch((e) => console.error(`⚠️  Failed to append to ${logFile}:`, e.message));
+    onDelivery({ ...d });
+  }
+
+  async function attempt(d, url, body) {
+    d.attempts++;
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'user-agent': 'coordination-board-webhook' },
+        body,
+        signal: AbortSignal.timeout(TIMEOUT_MS)
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      d.status = 'delivered';
+      d.lastError = null;
+    } catch (e) {
+      d.lastError = e.name === 'TimeoutError' ? 'timeout' : e.cause?.code || e.message;
+      const delay = RETRY_DELAYS_MS[d.attempts - 1];
+      if (delay === undefined) d.status = 'failed';
+      else setTimeout(() => attempt(d, url, body), delay).unref();
+    }
+    record(d);
+  }
+
+  function deliver(hook, event, board) {
+    const d = {
+      id: randomUUID(),
+      hookId: hook.id,
+      hookName: hook.name,
+      event: event.type,
+      board,
+      callsign: event.item.callsign,
+      attempts: 0,
+      status: 'pending',
+      lastError: null,
+      at: event.at,
+      updatedAt: Date.now()
+    };
+    attempt(d, hook.url, JSON.stringify(webhookPayload(hook, event, board, getConfig())));
+    return d;
+  }
+
+  function emit(board, event) {
+    for (const hook of hooks) if (hookWants(hook, event)) deliver(hook, event, board);
+  }
+
+  // Called periodically with every loaded board.
+  function checkOverdue(entries, now = Date.now()) {
+    const config = getConfig();
+    const seen = new Set();
+    for (const { name, state } of entries) {
+      for (const laneKey of Object.keys(state.lanes)) {
+        const lane = config.lanes.find((l) => l.key === laneKey);
+        for (const id of state.lanes[laneKey]) {
+          const item = state.items[id];
+          const { level, minutes } = cardUrgency(item, laneKey, lane, now);
+          if (level !== 'overdue' || minutes < -OVERDUE_WINDOW_MINUTES) continue;
+          const key = `${name}:${id}:${item.estimate}`;
+          seen.add(key);
+          if (!overdueSent.has(key)) emit(name, { type: 'card.overdue', at: now, lane: laneKey, item });
+        }
+      }
+    }
+    overdueSent = seen;
+  }
+
+  // A sample card to `hook`'s first lane, whatever events it subscribes to.
+  function test(hook) {
+    const lane = hook.lanes[0] || getConfig().lanes.find((l) => l.fixes.length)?.key || '';
+    const item = { id: 'test', source: 'manual', callsign: 'TEST123', waypoint: '', estimate: '1200', altitude: 'FL350', mach: 'M82', squawk: '2000', routeWaypoints: [] };
+    return deliver(hook, { type: 'test', at: Date.now(), lane, item }, 'test');
+  }
+
+  return { get: () => hooks, save, migrateLanes, emit, checkOverdue, test, deliveries: () => [...deliveries] };
+}
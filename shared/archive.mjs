@@ -0,0 +1,36 @@
+// ---- Archive of completed cards (searched on the client, reactivated through ops) ----
+
+import { hhmmToMinutes } from './geo.mjs';
+
+/** @typedef {import('./types').CompletedCard} CompletedCard */
+/** @typedef {import('./types').ArchiveQuery} ArchiveQuery */
+
+// Whether "HHMM" falls between `from` and `to` (inclusive); a range with from > to spans midnight.
+function inRange(hhmm, from, to) {
+  const t = hhmmToMinutes(hhmm);
+  if (t === null) return false;
+  const a = hhmmToMinutes(from) ?? 0;
+  const b = hhmmToMinutes(to) ?? 1439;
+  return a <= b ? t >= a && t <= b : t >= a || t <= b;
+}
+
+/**
+ * Completed cards matching every given part of `query`, most recently completed first.
+ * A time range matches on the card's final estimate.
+ * @param {Record<string, CompletedCard> | undefined} completed
+ * @param {ArchiveQuery} query
+ * @returns {CompletedCard[]}
+ */
+export function searchArchive(completed, { callsign, fix, lane, from, to } = {}) {
+  const cs = callsign?.trim().toUpperCase();
+  const timed = !!(from || to);
+  return Object.values(completed || {})
+    .filter(
+      ({ item, lane: l }) =>
+        (!cs || item.callsign.toUpperCase().includes(cs)) &&
+        (!fix || item.waypoint === fix) &&
+        (!lane || l === lane) &&
+        (!timed || inRange(item.estimate, from, to))
+    )
+    .sort((a, b) => (b.completedAt ?? Number.MAX_SAFE_INTEGER) - (a.completedAt ?? Number.MAX_SAFE_INTEGER));
+}
@@ -0,0 +1,103 @@
+// ---- Controller command line ----
+// Shorthand such as "JBU123 NY DAWIN 1432 350 82", "AAL45 /FL370" or "DEL AAL45".
+// Tokens after the callsign are recognised by their shape, in any order; a leading
+// "/" is allowed on any of them. The parser only reads the text; what the command
+// does to the board (create, move, patch, delete) is decided by the caller.
+
+import { fmtFL } from './format.mjs';
+import { hhmmToMinutes } from './geo.mjs';
+import { FIELD_FORMATS } from './schema.mjs';
+
+/** @typedef {import('./types').FacilityConfig} FacilityConfig */
+/** @typedef {import('./types').ParsedCommand} ParsedCommand */
+
+const DELETE_WORDS = ['DEL', 'DELETE', 'RM'];
+
+/**
+ * Short names for each lane: the name without spaces, its initials when it has
+ * several words, and its first three letters ("NY", "NEWYORK", "NEW" → New York).
+ * Aliases shared by two lanes are dropped.
+ * @param {FacilityConfig} config
+ * @returns {Map<string, string>} alias (upper case) -> lane key
+ */
+export function laneAliases(config) {
+  const aliases = new Map();
+  const ambiguous = new Set();
+  for (const { key } of config.lanes) {
+    const words = key.toUpperCase().split(/\s+/).filter(Boolean);
+    const candidates = new Set([words.join(''), words.join('').slice(0, 3)]);
+    if (words.length > 1) candidates.add(words.map((w) => w[0]).join(''));
+    for (const a of candidates) {
+      if (aliases.has(a) && aliases.get(a) !== key) ambiguous.add(a);
+      aliases.set(a, key);
+    }
+  }
+  ambiguous.forEach((a) => aliases.delete(a));
+  return aliases;
+}
+
+/**
+ * @param {string} text
+ * @param {FacilityConfig} config
+ * @returns {ParsedCommand | { error: string }}
+ */
+export function parseCommand(text, config) {
+  const tokens = text.trim().toUpperCase().split(/\s+/).filter(Boolean);
+  if (!tokens.length) return { error: 'Type a callsign first, e.g. JBU123 NY DAWIN 1432 350 82' };
+
+  let verb = 'set';
+  if (DELETE_WORDS.includes(tokens[0])) {
+    verb = 'delete';
+    tokens.shift();
+  } else if (tokens.length > 1 && DELETE_WORDS.includes(tokens[tokens.length - 1])) {
+    verb = 'delete';
+    tokens.pop();
+  }
+
+  const callsign = tokens.shift();
+  if (!callsign || !FIELD_FORMATS.callsign.complete(callsign)) return { error: `"${callsign ?? ''}" is not a callsign` };
+  if (verb === 'delete') return tokens.length ? { error: `Nothing may follow a delete (got "${tokens.join(' ')}")` } : { verb, callsign, fields: {} };
+
+  const aliases = laneAliases(config);
+  /** @type {ParsedCommand} */
+  const cmd = { verb, callsign, fields: {} };
+  const set = (field, value, token) => {
+    if (field === 'lane' ? cmd.lane : cmd.fields[field]) return `${token}: ${field === 'waypoint' ? 'fix' : field} given twice`;
+    if (field === 'lane') cmd.lane = value;
+    else cmd.fields[field] = value;
+    return null;
+  };
+
+  for (const raw of tokens) {
+    const t = raw.replace(/^\//, '');
+    let error;
+    if (/^(SQ|A)[0-7]{4}$/.test(t)) error = set('squawk', t.replace(/^(SQ|A)/, ''), raw);
+    else if (/^\d{4}Z?$/.test(t)) {
+      const hhmm = t.slice(0, 4);
+      error = hhmmToMinutes(hhmm) === null ? `${raw}: not a valid HHMM time` : set('estimate', hhmm, raw);
+    } else if (/^(FL|F)?\d{3}$/.test(t)) error = set('altitude', fmtFL(t), raw);
+    else if (/^(M|0?\.)?\d{2}$/.test(t)) error = set('mach', `M${t.slice(-2)}`, raw);
+    else if (aliases.has(t)) error = set('lane', aliases.get(t), raw);
+    else if (/^[A-Z]{2,5}$/.test(t)) error = set('waypoint', t, raw);
+    else error = `Don't understand "${raw}" — expected a lane, fix, HHMM, level, Mach or SQ####`;
+    if (error) return { error };
+  }
+
+  if (!cmd.lane && !Object.keys(cmd.fields).length) cmd.verb = 'add';
+  return cmd;
+}
+
+/**
+ * Completions for the token being typed (the last one).
+ * @param {string} text
+ * @param {{ callsigns: string[], lanes: Map<string, string>, fixes: string[] }} sources
+ * @returns {string[]}
+ */
+export function completeCommand(text, { callsigns, lanes, fixes }, limit = 8) {
+  const tokens = text.toUpperCase().split(/\s+/);
+  const current = tokens[tokens.length - 1].replace(/^\//, '');
+  if (!current) return [];
+  const isFirst = tokens.length === 1 || (tokens.length === 2 && DELETE_WORDS.includes(tokens[0]));
+  const pool = isFirst ? callsigns : [...lanes.keys(), ...fixes];
+  return [...new Set(pool.filter((c) => c.startsWith(current) && c !== current))].slice(0, limit);
+}
@@ -0,0 +1,79 @@
+// ---- Separation conflict detection ----
+// A coarse safety net over the board, not a separation tool: two cards conflict when
+// they are coordinated over the same fix at the same level with estimates closer than
+// the lane's longitudinal minimum. When the following aircraft is faster (Mach number
+// technique), the gap closes after the fix, so the minimum grows by one minute per
+// 0.01 Mach of overtake.
+
+import { INBOX_LANE } from './facilities.mjs';
+import { hhmmDiff } from './geo.mjs';
+
+/** @typedef {import('./types').BoardState} BoardState */
+/** @typedef {import('./types').FacilityConfig} FacilityConfig */
+/** @typedef {import('./types').Conflict} Conflict */
+
+/** Longitudinal minimum for lanes that don't configure one. */
+export const DEFAULT_SEPARATION_MINUTES = 10;
+
+const machOf = (m) => (/^M\d{2}$/.test(m || '') ? Number(m.slice(1)) : null);
+
+/**
+ * Conflicts per card id; cards without conflicts are absent.
+ * @param {BoardState} state
+ * @param {FacilityConfig} config
+ * @returns {Record<string, Conflict[]>}
+ */
+export function detectConflicts(state, config) {
+  const minimumFor = (lane) => config.lanes.find((l) => l.key === lane)?.separationMinutes ?? DEFAULT_SEPARATION_MINUTES;
+
+  // Cards with enough data to compare, grouped by fix and level.
+  const groups = new Map();
+  for (const [lane, ids] of Object.entries(state.lanes)) {
+    if (lane === INBOX_LANE) continue;
+    for (const id of ids) {
+      const item = state.items[id];
+      if (!item?.waypoint || !item.altitude || !/^\d{4}$/.test(item.estimate)) continue;
+      const key = `${item.waypoint}|${item.altitude}`;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key).push({ id, item, lane });
+    }
+  }
+
+  /** @type {Record<string, Conflict[]>} */
+  const out = {};
+  for (const cards of groups.values()) {
+    for (let i = 0; i < cards.length; i++) {
+      for (let j = i + 1; j < cards.length; j++) {
+        const diff = hhmmDiff(cards[j].item.estimate, cards[i].item.estimate);
+        if (diff === null) continue;
+        const [lead, follow] = diff >= 0 ? [cards[i], cards[j]] : [cards[j], cards[i]];
+        const gap = Math.abs(diff);
+        const overtake = Math.max(0, (machOf(follow.item.mach) ?? 0) - (machOf(lead.item.mach) ?? 0));
+        const closing = overtake > 0 && machOf(lead.item.mach) !== null;
+        const required = Math.max(minimumFor(lead.lane), minimumFor(follow.lane)) + (closing ? overtake : 0);
+        if (gap >= required) continue;
+
+        const { waypoint: fix, altitude } = lead.item;
+        const why = `${gap} min apart over ${fix} at ${altitude}, minimum ${required} min${
+          closing ? ` (${follow.item.callsign} ${follow.item.mach} is closing on ${lead.item.callsign} ${lead.item.mach})` : ''
+        }`;
+        for (const [self, other] of [
+          [lead, follow],
+          [follow, lead]
+        ]) {
+          (out[self.id] ||= []).push({
+            withId: other.id,
+            withCallsign: other.item.callsign,
+            fix,
+            altitude,
+            gapMinutes: gap,
+            requiredMinutes: required,
+            closing,
+            message: `${other.item.callsign}: ${why}`
+          });
+        }
+      }
+    }
+  }
+  return out;
+}
@@ -0,0 +1,121 @@
+// ---- Coordination lifecycle (shared by server.mjs and the client) ----
+
+import { INBOX_LANE } from './facilities.mjs';
+
+/** @typedef {import('./types').BoardItem} BoardItem */
+/** @typedef {import('./types').Coordination} Coordination */
+/** @typedef {import('./types').CoordStatus} CoordStatus */
+/** @typedef {import('./types').CoordAction} CoordAction */
+
+/** Fields covered by a coordination; changing one reopens it. */
+export const COORD_FIELDS = ['waypoint', 'estimate', 'altitude', 'mach'];
+
+/** @type {Record<CoordStatus, string>} */
+export const COORD_LABELS = {
+  draft: 'Draft',
+  proposed: 'Proposed',
+  counter: 'Counter-proposed',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+};
+
+/** @returns {Coordination} */
+export const draftCoordination = () => ({
+  status: 'draft',
+  amendment: 0,
+  counter: null,
+  by: null,
+  at: null,
+  acceptedBy: null,
+  acceptedAt: null,
+});
+
+/**
+ * @param {BoardItem} item
+ * @returns {Coordination}
+ */
+export const coordOf = (item) => item.coord || draftCoordination();
+
+/** Which actions are allowed from each status. @type {Record<CoordStatus, CoordAction[]>} */
+const TRANSITIONS = {
+  draft: ['propose'],
+  proposed: ['accept', 'counter', 'reject'],
+  counter: ['accept', 'reject', 'propose'],
+  accepted: [],
+  rejected: ['propose'],
+};
+
+/**
+ * @param {BoardItem} item
+ * @returns {CoordAction[]}
+ */
+export const allowedActions = (item) => TRANSITIONS[coordOf(item).status];
+
+/**
+ * @param {BoardItem} item
+ * @param {{ action: CoordAction, counter?: import('./types').CoordValues }} op
+ * @param {string | undefined} lane
+ * @returns {string | null}
+ */
+export function validateCoordOp(item, op, lane) {
+  if (!allowedActions(item).includes(op.action)) {
+    return `Cannot ${op.action} a card that is ${COORD_LABELS[coordOf(item).status].toLowerCase()}`;
+  }
+  if (op.action === 'propose' && (!lane || lane === INBOX_LANE)) return 'Move the card to a facility lane before proposing';
+  if (op.action === 'counter') {
+    const keys = Object.keys(op.counter || {});
+    if (!keys.length) return 'A counter-proposal needs at least one alternative value';
+    if (keys.some((k) => !COORD_FIELDS.includes(k) || typeof op.counter[k] !== 'string')) return 'Invalid counter-proposal field';
+  }
+  return null;
+}
+
+/**
+ * Apply a validated coordination action. Accepting a counter-proposal adopts its values.
+ * @param {BoardItem} item
+ * @param {{ action: CoordAction, counter?: import('./types').CoordValues, by?: string, at?: number }} op
+ * @returns {BoardItem}
+ */
+export function applyCoordOp(item, op) {
+  const prev = coordOf(item);
+  const by = op.by || null;
+  const at = op.at ?? null;
+  switch (op.action) {
+    case 'propose':
+      return { ...item, coord: { ...prev, status: 'proposed', counter: null, by, at } };
+    case 'counter':
+      return { ...item, coord: { ...prev, status: 'counter', counter: { ...op.counter }, by, at } };
+    case 'accept':
+      return {
+        ...item,
+        ...(prev.status === 'counter' ? prev.counter : null),
+        coord: { ...prev, status: 'accepted', counter: null, by, at, acceptedBy: by, acceptedAt: at },
+      };
+    case 'reject':
+      return { ...item, coord: { ...prev, status: 'rejected', counter: null, by, at } };
+    default:
+      return item;
+  }
+}
+
+/**
+ * Coordination after a field edit: changing a coordinated field on anything past
+ * draft puts it back to "proposed"; if it had been accepted, that is an amendment.
+ * @param {BoardItem} item  the card before the patch
+ * @param {Record<string, string>} patch
+ * @param {number | undefined} at
+ * @returns {Coordination | undefined}
+ */
+export function coordAfterPatch(item, patch, at) {
+  const prev = coordOf(item);
+  const touched = COORD_FIELDS.some((k) => k in patch && patch[k] !== item[k]);
+  if (!touched || prev.status === 'draft' || prev.status === 'proposed') return item.coord;
+  return {
+    ...prev,
+    status: 'proposed',
+    counter: null,
+    amendment: prev.status === 'accepted' ? prev.amendment + 1 : prev.amendment,
+    by: null,
+    at: at ?? null,
+  };
+}
@@ -0,0 +1,46 @@
+// ---- Coordination deadlines and overdue cards ----
+// Every lane may require coordination a number of minutes before the boundary
+// estimate. All arithmetic goes through minutesUntil(), so an estimate of 0005
+// seen at 2355 is ten minutes away, not a day ago.
+
+import { coordOf } from './coordination.mjs';
+import { INBOX_LANE } from './facilities.mjs';
+import { minutesUntil } from './geo.mjs';
+
+/** @typedef {import('./types').BoardItem} BoardItem */
+/** @typedef {import('./types').LaneConfig} LaneConfig */
+/** @typedef {import('./types').Urgency} Urgency */
+
+/** Warn this many minutes before a coordination deadline. */
+export const DEADLINE_WARNING_MINUTES = 5;
+
+/** Escalation order, lowest first. */
+export const URGENCY_LEVELS = ['none', 'ok', 'due', 'late', 'overdue'];
+
+/**
+ * Where a card stands against its estimate and its lane's coordination deadline.
+ * @param {BoardItem} item
+ * @param {string} laneKey
+ * @param {LaneConfig | undefined} lane
+ * @param {number} [now]
+ * @returns {Urgency}
+ */
+export function cardUrgency(item, laneKey, lane, now = Date.now()) {
+  const minutes = minutesUntil(item.estimate, now);
+  if (minutes === null) return { level: 'none', minutes: null, deadlineIn: null };
+  if (minutes < 0) return { level: 'overdue', minutes, deadlineIn: null };
+
+  const deadline = laneKey === INBOX_LANE ? undefined : lane?.coordinationDeadlineMinutes;
+  if (!deadline || coordOf(item).status === 'accepted') return { level: 'ok', minutes, deadlineIn: null };
+  const deadlineIn = minutes - deadline;
+  if (deadlineIn < 0) return { level: 'late', minutes, deadlineIn };
+  return { level: deadlineIn <= DEADLINE_WARNING_MINUTES ? 'due' : 'ok', minutes, deadlineIn };
+}
+
+/** "in 12 min", "now", "3 min ago"; hours past 90 minutes ("in 2h05"). */
+export function formatCountdown(minutes) {
+  if (minutes === 0) return 'now';
+  const abs = Math.abs(minutes);
+  const text = abs > 90 ? `${Math.floor(abs / 60)}h${String(abs % 60).padStart(2, '0')}` : `${abs} min`;
+  return minutes > 0 ? `in ${text}` : `${text} ago`;
+}
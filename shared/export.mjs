@@ -0,0 +1,163 @@
+// ---- Board export (CSV / JSON) and the shift-handover report ----
+// The JSON export is the board state verbatim, so importing it restores the board
+// exactly; the CSV uses the import columns and can be re-imported as new cards.
+
+import { COORD_LABELS, coordOf } from './coordination.mjs';
+import { INBOX_LANE } from './facilities.mjs';
+import { minutesUntil } from './geo.mjs';
+import { validateBoardState } from './schema.mjs';
+
+/** @typedef {import('./types').BoardState} BoardState */
+/** @typedef {import('./types').BoardItem} BoardItem */
+/** @typedef {import('./types').FacilityConfig} FacilityConfig */
+/** @typedef {import('./types').BoardExport} BoardExport */
+
+/** Marks a JSON file as a full board export rather than a list of cards. */
+export const EXPORT_FORMAT = 'coord-board';
+
+export const EXPORT_COLUMNS = ['callsign', 'lane', 'fix', 'estimate', 'altitude', 'mach', 'squawk', 'route', 'status', 'amendment', 'source'];
+
+const stampOf = (now) => new Date(now).toISOString().slice(0, 16).replace(/[-:]/g, '').replace('T', '-');
+
+/** File name for a download, e.g. "main-20261024-2315.csv". */
+export const exportFileName = (board, ext, now = Date.now()) => `${board}-${stampOf(now)}Z.${ext}`;
+
+/** Lanes in configured order, followed by any the configuration doesn't know. */
+function orderedLanes(state, config) {
+  const configured = config.lanes.map((l) => l.key).filter((k) => state.lanes[k]);
+  return [...configured, ...Object.keys(state.lanes).filter((k) => !configured.includes(k))];
+}
+
+/**
+ * @param {BoardState} state
+ * @param {FacilityConfig} config
+ */
+export function boardToCsv(state, config) {
+  const cell = (v) => (/[",\n\r]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  const rows = [EXPORT_COLUMNS];
+  for (const lane of orderedLanes(state, config)) {
+    for (const id of state.lanes[lane]) {
+      const item = state.items[id];
+      if (!item) continue;
+      const coord = coordOf(item);
+      rows.push([
+        item.callsign,
+        lane,
+        item.waypoint,
+        item.estimate,
+        item.altitude,
+        item.mach,
+        item.squawk,
+        (item.routeWaypoints || []).join(' '),
+        coord.status,
+        String(coord.amendment),
+        item.source
+      ]);
+    }
+  }
+  return rows.map((r) => r.map((v) => cell(v ?? '')).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * @param {BoardState} state
+ * @param {{ board: string, now?: number }} meta
+ * @returns {BoardExport}
+ */
+export function boardToJson(state, { board, now = Date.now() }) {
+  return { format: EXPORT_FORMAT, formatVersion: 1, board, exportedAt: now, state };
+}
+
+/**
+ * Check a parsed JSON export before it replaces a board.
+ * @param {unknown} data
+ * @returns {{ state: BoardState } | { error: string }}
+ */
+export function readBoardExport(data) {
+  if (data?.format !== EXPORT_FORMAT) return { error: 'Not a board export' };
+  const state = data.state;
+  if (!state || typeof state.lanes !== 'object' || typeof state.items !== 'object') return { error: 'Export has no board state' };
+  const problem = validateBoardState(state);
+  if (problem) return { error: problem };
+  return {
+    state: { lanes: state.lanes, items: state.items, completed: state.completed || {}, lastUpdated: Number(state.lastUpdated) || 0, version: 0 }
+  };
+}
+
+const escapeHtml = (s) =>
+  String(s ?? '').replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+
+/** Cards whose estimate has passed while they are still on the board. */
+export const isOverdue = (item, now = Date.now()) => (minutesUntil(item.estimate, now) ?? 0) < 0;
+
+/**
+ * Printable handover report: one table per lane, cards in estimate order.
+ * @param {BoardState} state
+ * @param {FacilityConfig} config
+ * @param {{ board: string, now?: number }} meta
+ */
+export function handoverReport(state, config, { board, now = Date.now() }) {
+  const utc = new Date(now).toISOString().slice(0, 16).replace('T', ' ');
+  // Soonest first, relative to now so a board spanning midnight sorts correctly; no estimate last.
+  const byEstimate = (a, b) => (minutesUntil(a.estimate, now) ?? Infinity) - (minutesUntil(b.estimate, now) ?? Infinity);
+  const all = Object.values(state.items);
+  const open = all.filter((i) => coordOf(i).status !== 'accepted').length;
+  const overdue = all.filter((i) => isOverdue(i, now)).length;
+  const completed = Object.keys(state.completed || {}).length;
+
+  const sections = orderedLanes(state, config).map((lane) => {
+    const items = state.lanes[lane].map((id) => state.items[id]).filter(Boolean).sort(byEstimate);
+    const color = config.lanes.find((l) => l.key === lane)?.color || '#94a3b8';
+    const rows = items.map((item) => {
+      const coord = coordOf(item);
+      const late = isOverdue(item, now);
+      const status = `${COORD_LABELS[coord.status]}${coord.amendment ? ` AMD ${coord.amendment}` : ''}${
+        coord.status === 'accepted' && coord.acceptedBy ? ` (${coord.acceptedBy})` : ''
+      }`;
+      return `<tr${late ? ' class="overdue"' : ''}>
+  <td><b>${escapeHtml(item.callsign)}</b>${late ? ' <span class="flag">OVERDUE</span>' : ''}</td>
+  <td>${lane === INBOX_LANE ? '' : escapeHtml(item.waypoint)}</td><td>${escapeHtml(item.estimate)}</td>
+  <td>${escapeHtml(item.altitude)}</td><td>${escapeHtml(item.mach)}</td><td>${escapeHtml(item.squawk)}</td>
+  <td class="st-${coord.status}">${escapeHtml(status)}</td>
+</tr>`;
+    });
+    return `<section style="border-left-color:${escapeHtml(color)}">
+<h2>${escapeHtml(lane)} <small>${items.length} card${items.length === 1 ? '' : 's'}</small></h2>
+${items.length ? `<table>
+<thead><tr><th>Callsign</th><th>Fix</th><th>Estimate</th><th>Altitude</th><th>Mach</th><th>Squawk</th><th>Coordination</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>` : '<p class="empty">No traffic</p>'}
+</section>`;
+  });
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Handover — ${escapeHtml(board)} — ${utc}Z</title>
+<style>
+body{font:13px/1.4 system-ui,Arial,sans-serif;margin:24px;color:#111}
+h1{font-size:18px;margin:0 0 4px}
+.meta{color:#555;margin-bottom:16px}
+section{border-left:6px solid #94a3b8;padding-left:10px;margin-bottom:18px;break-inside:avoid}
+h2{font-size:15px;margin:0 0 6px}
+h2 small{font-weight:400;color:#666}
+table{border-collapse:collapse;width:100%}
+th,td{border-bottom:1px solid #ddd;padding:4px 8px;text-align:left;font-variant-numeric:tabular-nums}
+th{font-size:11px;text-transform:uppercase;color:#555}
+tr.overdue td{background:#fee2e2}
+.flag{font-size:10px;font-weight:700;color:#b91c1c;border:1px solid #b91c1c;border-radius:3px;padding:0 3px}
+.st-accepted{color:#15803d}.st-counter,.st-proposed{color:#b45309}.st-rejected{color:#b91c1c}
+.empty{color:#777;margin:0}
+@media print{body{margin:10mm}}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(config.homeFacility)} coordination handover — ${escapeHtml(board)}</h1>
+<div class="meta">Generated ${utc}Z · ${all.length} cards · ${open} not yet accepted · ${overdue} overdue · ${completed} completed</div>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,102 @@
+// ---- Facility configuration (lanes, fixes, colors, copy format) ----
+// Loaded and validated by the server, served to clients and edited from /admin.
+
+/** @typedef {import('./types').FacilityConfig} FacilityConfig */
+/** @typedef {import('./types').LaneConfig} LaneConfig */
+
+/** New cards land here; every configuration must keep it. */
+export const INBOX_LANE = 'Unassigned';
+
+/** Placeholders a copy format may use. */
+export const COPY_PLACEHOLDERS = ['callsign', 'fix', 'waypoint', 'estimate', 'altitude', 'mach', 'squawk', 'lane', 'route', 'adep', 'ades'];
+
+export const DEFAULT_COPY_FORMAT = '{callsign} {fix} {estimate} {altitude} {mach} {squawk}';
+
+/**
+ * @param {FacilityConfig} cfg
+ * @returns {string[]} problems; empty when the configuration is usable
+ */
+export function validateFacilityConfig(cfg) {
+  const errors = [];
+  if (!cfg || typeof cfg !== 'object') return ['Configuration must be an object'];
+  if (typeof cfg.homeFacility !== 'string' || !cfg.homeFacility.trim()) errors.push('homeFacility is required');
+  const drift = cfg.estimateDriftMinutes;
+  if (!Number.isInteger(drift) || drift < 1 || drift > 60) errors.push('estimateDriftMinutes must be a whole number from 1 to 60');
+  const remove = cfg.removeDisconnectedMinutes;
+  if (remove !== undefined && (!Number.isInteger(remove) || remove < 1 || remove > 240)) {
+    errors.push('removeDisconnectedMinutes must be a whole number from 1 to 240, or left out to keep the cards');
+  }
+  const complete = cfg.autoCompleteMinutes;
+  if (complete !== undefined && (!Number.isInteger(complete) || complete < 1 || complete > 240)) {
+    errors.push('autoCompleteMinutes must be a whole number from 1 to 240, or left out to complete cards by hand');
+  }
+  if (!Array.isArray(cfg.lanes) || cfg.lanes.length < 2) return [...errors, 'At least one facility lane besides Unassigned is required'];
+
+  const seen = new Set();
+  cfg.lanes.forEach((lane, i) => {
+    const where = `Lane ${i + 1}${lane?.key ? ` (${lane.key})` : ''}`;
+    if (typeof lane?.key !== 'string' || !lane.key.trim() || lane.key.length > 32) {
+      errors.push(`${where}: name must be 1–32 characters`);
+      return;
+    }
+    if (lane.key !== lane.key.trim()) errors.push(`${where}: name has leading/trailing spaces`);
+    if (seen.has(lane.key)) errors.push(`${where}: duplicate lane name`);
+    seen.add(lane.key);
+    if (!/^#[0-9a-f]{6}$/i.test(lane.color || '')) errors.push(`${where}: color must look like #60a5fa`);
+    if (!Array.isArray(lane.fixes)) errors.push(`${where}: fixes must be a list`);
+    else {
+      const bad = lane.fixes.find((f) => !/^[A-Z0-9]{2,7}$/.test(f));
+      if (bad !== undefined) errors.push(`${where}: "${bad}" is not a valid fix identifier`);
+      if (new Set(lane.fixes).size !== lane.fixes.length) errors.push(`${where}: fixes are listed twice`);
+    }
+    if (lane.defaultAltitude && !/^FL\d{3}$/.test(lane.defaultAltitude)) errors.push(`${where}: default altitude must look like FL350`);
+    const sep = lane.separationMinutes;
+    if (sep !== undefined && (!Number.isInteger(sep) || sep < 1 || sep > 60)) errors.push(`${where}: separation must be a whole number of minutes from 1 to 60`);
+    const deadline = lane.coordinationDeadlineMinutes;
+    if (deadline !== undefined && (!Number.isInteger(deadline) || deadline < 1 || deadline > 180)) {
+      errors.push(`${where}: coordination deadline must be a whole number of minutes from 1 to 180`);
+    }
+    if (lane.facilityOnly !== undefined && typeof lane.facilityOnly !== 'boolean') errors.push(`${where}: facilityOnly must be true or false`);
+    if (typeof lane.copyFormat !== 'string' || lane.copyFormat.length > 200) errors.push(`${where}: copy format must be at most 200 characters`);
+    else {
+      const unknown = [...lane.copyFormat.matchAll(/\{(\w+)\}/g)].map((m) => m[1]).find((p) => !COPY_PLACEHOLDERS.includes(p));
+      if (unknown) errors.push(`${where}: unknown placeholder {${unknown}}`);
+    }
+  });
+  if (!seen.has(INBOX_LANE)) errors.push(`The "${INBOX_LANE}" lane cannot be removed`);
+  return errors;
+}
+
+/** @param {FacilityConfig} cfg */
+export const laneKeys = (cfg) => cfg.lanes.map((l) => l.key);
+
+/** Facilities a controller can sign in as: the home unit plus every adjacent lane. */
+export const facilityNames = (cfg) => [cfg.homeFacility, ...laneKeys(cfg).filter((k) => k !== INBOX_LANE)];
+
+/** @param {FacilityConfig} cfg @returns {Record<string, string[]>} */
+export const laneFixes = (cfg) => Object.fromEntries(cfg.lanes.map((l) => [l.key, l.fixes]));
+
+/**
+ * Housekeeping for a card that lands in another lane: drop a fix the lane doesn't
+ * use and fill in the lane's default altitude when the card has none.
+ * @param {import('./types').BoardItem} item
+ * @param {string} laneKey
+ * @param {LaneConfig | undefined} lane
+ * @returns {Partial<import('./types').BoardItemFields>}
+ */
+export function laneChangePatch(item, laneKey, lane) {
+  const patch = {};
+  const fixes = lane?.fixes.length ? lane.fixes : item.routeWaypoints || [];
+  if (laneKey !== INBOX_LANE && item.waypoint && !fixes.includes(item.waypoint)) patch.waypoint = '';
+  if (!item.altitude && lane?.defaultAltitude) patch.altitude = lane.defaultAltitude;
+  return patch;
+}
+
+/**
+ * Fill a copy format such as "{callsign} {fix} {estimate}". Empty values print as "—".
+ * @param {string} format
+ * @param {Record<string, string | undefined>} values
+ */
+export function formatCopy(format, values) {
+  return (format || DEFAULT_COPY_FORMAT).replace(/\{(\w+)\}/g, (_, k) => values[k] || '—');
+}
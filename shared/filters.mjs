@@ -0,0 +1,63 @@
+// ---- Lane sorting and board filters (client view only; the board's order never changes) ----
+
+import { coordOf } from './coordination.mjs';
+import { minutesUntil } from './geo.mjs';
+
+/** @typedef {import('./types').BoardItem} BoardItem */
+/** @typedef {import('./types').BoardFilter} BoardFilter */
+/** @typedef {import('./types').LaneSort} LaneSort */
+
+/** The orders a lane can show; "manual" is the dragged order. @type {LaneSort[]} */
+export const LANE_SORTS = ['manual', 'estimate', 'fix', 'altitude'];
+
+// "FL350" -> 350; null when there is no level.
+function levelOf(altitude) {
+  const m = /^FL(\d{1,3})$/.exec(altitude || '');
+  return m ? Number(m[1]) : null;
+}
+
+/**
+ * `ids` in the order `sort` asks for. Estimates sort relative to `now`, so a lane spanning
+ * midnight puts 2350 before 0010; cards without the sort key keep their manual order at the end.
+ * @param {string[]} ids
+ * @param {Record<string, BoardItem>} items
+ * @param {LaneSort} sort
+ * @param {number} [now]
+ * @returns {string[]}
+ */
+export function sortLane(ids, items, sort, now = Date.now()) {
+  const keyOf = {
+    estimate: (item) => minutesUntil(item.estimate, now),
+    fix: (item) => item.waypoint || null,
+    altitude: (item) => levelOf(item.altitude),
+  }[sort];
+  if (!keyOf) return ids;
+  return [...ids].sort((a, b) => {
+    const ka = keyOf(items[a]);
+    const kb = keyOf(items[b]);
+    if (ka === null || kb === null) return Number(ka === null) - Number(kb === null);
+    return ka < kb ? -1 : ka > kb ? 1 : 0;
+  });
+}
+
+/** @param {BoardFilter} filter */
+export const isFiltering = (filter) => Object.values(filter).some(Boolean);
+
+/**
+ * Whether `item` passes every part of `filter` that is set. A flight level band leaves out
+ * cards without an altitude.
+ * @param {BoardItem} item
+ * @param {BoardFilter} filter
+ */
+export function matchesFilter(item, { callsign, fix, minLevel, maxLevel, status }) {
+  if (callsign && !item.callsign.toUpperCase().includes(callsign.trim().toUpperCase())) return false;
+  if (fix && item.waypoint !== fix) return false;
+  if (status && coordOf(item).status !== status) return false;
+  if (minLevel || maxLevel) {
+    const level = levelOf(item.altitude);
+    if (level === null) return false;
+    if (minLevel && level < (levelOf(minLevel) ?? 0)) return false;
+    if (maxLevel && level > (levelOf(maxLevel) ?? 999)) return false;
+  }
+  return true;
+}
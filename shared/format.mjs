@@ -0,0 +1,38 @@
+// ---- Strip field formatting (shared by the card inputs and the bulk importer) ----
+// Each formatter takes whatever was typed and keeps the part that fits the field.
+
+/** Keep only digits. */
+export const digits = (s) => (s || '').replace(/\D+/g, '');
+
+/** HHMM (4 digits). */
+export function fmtHHMM(input) {
+  return digits(input).slice(0, 4);
+}
+
+/** FL + up to 3 digits (FL350). */
+export function fmtFL(input) {
+  const d = digits(input).slice(0, 3);
+  return d ? `FL${d}` : '';
+}
+
+/** M + up to 2 digits (M82). */
+export function fmtMach(input) {
+  const d = digits(input).slice(0, 2);
+  return d ? `M${d}` : '';
+}
+
+/**
+ * Unique fix/navaid-looking tokens of a filed route, in order.
+ * @param {string | null | undefined} route
+ * @returns {string[]}
+ */
+export function parseWaypointsFromRoute(route) {
+  if (!route) return [];
+  const toks = route
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .filter((t) => /^[A-Z0-9]{2,7}$/.test(t));
+  return Array.from(new Set(toks));
+}
@@ -0,0 +1,67 @@
+// ---- Great-circle helpers and HHMM arithmetic ----
+
+import fixData from './fixes.json' with { type: 'json' };
+import firData from './fir.json' with { type: 'json' };
+
+/** Positions are approximate unless `verified`. @type {Record<string, { lat: number, lon: number, verified?: boolean }>} */
+export const FIXES = fixData.fixes;
+
+/** The FIR outline drawn on the situation map, as [lat, lon] points. */
+export const FIR = { name: firData.name, boundary: /** @type {[number, number][]} */ (firData.boundary) };
+
+const EARTH_RADIUS_NM = 3440.065;
+const rad = (d) => (d * Math.PI) / 180;
+
+/** Great-circle distance in nautical miles. */
+export function distanceNm(lat1, lon1, lat2, lon2) {
+  const dLat = rad(lat2 - lat1);
+  const dLon = rad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(rad(lat1)) * Math.cos(rad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_NM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/** Epoch ms -> "HHMM" (UTC). */
+export function toHHMM(ts) {
+  const d = new Date(ts);
+  return `${String(d.getUTCHours()).padStart(2, '0')}${String(d.getUTCMinutes()).padStart(2, '0')}`;
+}
+
+/** "HHMM" -> minutes after midnight, or null when it is not a valid time. */
+export function hhmmToMinutes(hhmm) {
+  if (!/^\d{4}$/.test(hhmm || '')) return null;
+  const h = Number(hhmm.slice(0, 2));
+  const m = Number(hhmm.slice(2));
+  return h < 24 && m < 60 ? h * 60 + m : null;
+}
+
+/**
+ * Signed difference a - b in minutes, taking the shorter way round midnight
+ * (so 0005 - 2355 is +10, not -1430). Null if either time is invalid.
+ */
+export function hhmmDiff(a, b) {
+  const ma = hhmmToMinutes(a);
+  const mb = hhmmToMinutes(b);
+  if (ma === null || mb === null) return null;
+  return ((((ma - mb) % 1440) + 2160) % 1440) - 720;
+}
+
+/** Minutes from `now` until the UTC time "HHMM" (negative once it has passed), or null. */
+export function minutesUntil(hhmm, now = Date.now()) {
+  return hhmmDiff(hhmm, toHHMM(now));
+}
+
+const MIN_GROUNDSPEED_KT = 50; // below this the aircraft is on the ground; no useful ETA
+
+/**
+ * Great-circle ETA from the pilot's live position to `fix`; `approximate` when the fix
+ * position has not been verified, so the ETA is only a hint.
+ * @param {{ latitude: number, longitude: number, groundspeed: number }} pilot
+ * @returns {{ hhmm: string, minutes: number, distanceNm: number, approximate: boolean } | null}
+ */
+export function etaToFix(pilot, fix, now = Date.now()) {
+  const pos = FIXES[fix];
+  if (!pos || !pilot || !(pilot.groundspeed >= MIN_GROUNDSPEED_KT)) return null;
+  const dist = distanceNm(pilot.latitude, pilot.longitude, pos.lat, pos.lon);
+  const minutes = (dist / pilot.groundspeed) * 60;
+  return { hhmm: toHHMM(now + minutes * 60_000), minutes, distanceNm: dist, approximate: !pos.verified };
+}
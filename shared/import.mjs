@@ -0,0 +1,147 @@
+// ---- Manual cards and bulk import (CSV / JSON slot lists) ----
+// One normalizer validates a card typed into the form and every row of an imported
+// file, using the same formatting rules as the card inputs.
+
+import { INBOX_LANE } from './facilities.mjs';
+import { fmtFL, fmtHHMM, fmtMach, parseWaypointsFromRoute } from './format.mjs';
+import { hhmmToMinutes } from './geo.mjs';
+import { FIELD_FORMATS } from './schema.mjs';
+
+/** @typedef {import('./types').FacilityConfig} FacilityConfig */
+/** @typedef {import('./types').BoardItemFields} BoardItemFields */
+
+/** Columns an import file may use; anything else is ignored. */
+export const IMPORT_COLUMNS = ['callsign', 'lane', 'fix', 'estimate', 'altitude', 'mach', 'squawk', 'route'];
+
+/**
+ * @typedef {object} ImportedCard
+ * @property {string} lane
+ * @property {BoardItemFields & { routeWaypoints: string[] }} fields
+ */
+
+/**
+ * Validate one card. Values may be loosely typed ("14:32", "350", "0.82").
+ * @param {Record<string, unknown>} raw
+ * @param {FacilityConfig} config
+ * @returns {{ card: ImportedCard } | { error: string }}
+ */
+export function normalizeCard(raw, config) {
+  const str = (k) => (raw[k] == null ? '' : String(raw[k]).trim());
+
+  const callsign = str('callsign').toUpperCase().replace(/\s+/g, '');
+  if (!FIELD_FORMATS.callsign.complete(callsign)) return { error: `"${str('callsign')}" is not a valid callsign` };
+
+  const laneName = str('lane');
+  const lane = laneName ? config.lanes.find((l) => l.key.toLowerCase() === laneName.toLowerCase()) : config.lanes.find((l) => l.key === INBOX_LANE);
+  if (!lane) return { error: `${callsign}: unknown lane "${laneName}"` };
+
+  const fix = str('fix').toUpperCase();
+  if (fix && lane.fixes.length && !lane.fixes.includes(fix)) return { error: `${callsign}: ${fix} is not a ${lane.key} fix` };
+
+  const estimate = fmtHHMM(str('estimate'));
+  if (str('estimate') && hhmmToMinutes(estimate) === null) return { error: `${callsign}: estimate "${str('estimate')}" is not HHMM` };
+
+  const altitude = fmtFL(/^\d{5}$/.test(str('altitude')) ? str('altitude').slice(0, 3) : str('altitude')); // 35000 -> FL350
+  if (str('altitude') && !/^FL\d{3}$/.test(altitude)) return { error: `${callsign}: altitude "${str('altitude')}" is not a flight level` };
+
+  const machInput = str('mach').replace(/^0?\./, ''); // 0.82 -> 82
+  const mach = fmtMach(machInput);
+  if (str('mach') && !/^M\d{2}$/.test(mach)) return { error: `${callsign}: mach "${str('mach')}" is not M##` };
+
+  const squawk = str('squawk');
+  if (squawk && !/^[0-7]{4}$/.test(squawk)) return { error: `${callsign}: squawk "${squawk}" must be 4 octal digits` };
+
+  return {
+    card: {
+      lane: lane.key,
+      fields: {
+        callsign,
+        waypoint: fix,
+        estimate,
+        altitude: altitude || lane.defaultAltitude || '',
+        mach,
+        squawk,
+        routeWaypoints: parseWaypointsFromRoute(str('route').toUpperCase()),
+      },
+    },
+  };
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF. The delimiter
+ * (comma, semicolon or tab) is taken from the header row.
+ * @param {string} text
+ * @returns {Record<string, string>[]}
+ */
+export function parseCsv(text) {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delim = [',', ';', '\t'].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ',');
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') field += text[++i];
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === delim) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += c;
+  }
+  if (field || row.length) rows.push([...row, field]);
+
+  const [header = [], ...body] = rows.filter((r) => r.some((f) => f.trim()));
+  const keys = header.map((h) => h.trim().toLowerCase());
+  return body.map((r) => Object.fromEntries(keys.map((k, i) => [k, r[i] ?? ''])));
+}
+
+/**
+ * Parse an import file: a JSON array (or `{ "cards": [...] }`) or CSV with a header row.
+ * Rows are numbered from 1 in error messages; callsigns repeated in the file or already
+ * on the board (`existing`, upper case) are reported rather than imported twice.
+ * @param {string} text
+ * @param {FacilityConfig} config
+ * @param {Set<string>} [existing]
+ * @returns {{ cards: ImportedCard[], errors: string[] }}
+ */
+export function parseImport(text, config, existing = new Set()) {
+  let records;
+  const trimmed = text.trim();
+  if (!trimmed) return { cards: [], errors: [] };
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      const data = JSON.parse(trimmed);
+      records = Array.isArray(data) ? data : data?.cards;
+    } catch (e) {
+      return { cards: [], errors: [`Invalid JSON: ${e.message}`] };
+    }
+    if (!Array.isArray(records)) return { cards: [], errors: ['JSON must be an array of cards or { "cards": [...] }'] };
+  } else {
+    records = parseCsv(trimmed);
+    if (records.length && !('callsign' in records[0])) return { cards: [], errors: ['CSV needs a header row with a "callsign" column'] };
+  }
+
+  const cards = [];
+  const errors = [];
+  const seen = new Set();
+  records.forEach((raw, i) => {
+    const result = raw && typeof raw === 'object' ? normalizeCard(raw, config) : { error: 'not an object' };
+    if ('error' in result) return errors.push(`Row ${i + 1}: ${result.error}`);
+    const { callsign } = result.card.fields;
+    if (existing.has(callsign)) return errors.push(`Row ${i + 1}: ${callsign} is already on the board`);
+    if (seen.has(callsign)) return errors.push(`Row ${i + 1}: ${callsign} is listed twice`);
+    seen.add(callsign);
+    cards.push(result.card);
+  });
+  return { cards, errors };
+}
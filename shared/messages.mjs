@@ -0,0 +1,181 @@
+// ---- Coordination messages ----
+// Cards are sent to adjacent facilities either through the lane's free-text
+// template (copyFormat) or as structured messages modeled on AIDC/OLDI:
+//
+//   EST  (EST-JBU123/A2201-KJFK-DAWIN/1432F350-TJSJ)
+//   CPL  (CPL-JBU123/A2201-IS-KJFK-DAWIN/1432F350-M082F350 SHIPP Y493 OBIKE-TJSJ)
+//   ACP  (ACP-JBU123-KJFK-TJSJ)
+//
+// These are simplified (no equipment, flight rules fixed to IS) and meant for
+// text channels, not for an actual AIDC link. A card without a fix or aerodrome
+// gets ZZZZ, one without an estimate just DAWIN (or DAWINF350). parseMessage()
+// reads all of them back, plus anything written with one of the lane templates.
+
+import { formatCopy, INBOX_LANE } from './facilities.mjs';
+import { normalizeCard } from './import.mjs';
+import { CALLSIGN_PATTERN } from './schema.mjs';
+
+/** @typedef {import('./types').BoardItem} BoardItem */
+/** @typedef {import('./types').FacilityConfig} FacilityConfig */
+/** @typedef {import('./types').ParsedMessage} ParsedMessage */
+/** @typedef {import('./types').MessageType} MessageType */
+
+/** @type {MessageType[]} */
+export const MESSAGE_TYPES = ['EST', 'CPL', 'ACP'];
+
+const UNKNOWN_AERODROME = 'ZZZZ';
+
+/**
+ * Placeholder values for a card; `adep`/`ades` come from the live flight plan when known.
+ * @param {BoardItem} item
+ * @param {string} lane
+ * @param {{ adep?: string | null, ades?: string | null }} [extra]
+ */
+export function messageValues(item, lane, extra = {}) {
+  return {
+    callsign: item.callsign,
+    fix: item.waypoint,
+    waypoint: item.waypoint,
+    estimate: item.estimate,
+    altitude: item.altitude,
+    mach: item.mach,
+    squawk: item.squawk,
+    lane,
+    route: (item.routeWaypoints || []).join(' '),
+    adep: extra.adep || '',
+    ades: extra.ades || ''
+  };
+}
+
+/** The lane's free-text message. */
+export const templateMessage = (format, values) => formatCopy(format, values);
+
+const level = (alt) => (alt ? `F${alt.replace(/^FL/, '')}` : '');
+const speed = (mach) => (mach ? `M0${mach.replace(/^M/, '')}` : '');
+
+/**
+ * @param {'EST' | 'CPL' | 'ACP'} type
+ * @param {ReturnType<typeof messageValues>} v
+ */
+export function structuredMessage(type, v) {
+  const adep = v.adep || UNKNOWN_AERODROME;
+  const ades = v.ades || UNKNOWN_AERODROME;
+  const ssr = v.squawk ? `/A${v.squawk}` : '';
+  const boundary = `${v.fix || UNKNOWN_AERODROME}${v.estimate ? `/${v.estimate}` : ''}${level(v.altitude)}`;
+  switch (type) {
+    case 'EST':
+      return `(EST-${v.callsign}${ssr}-${adep}-${boundary}-${ades})`;
+    case 'CPL': {
+      const cruise = `${speed(v.mach)}${level(v.altitude)}`;
+      const route = [cruise, v.route].filter(Boolean).join(' ');
+      return `(CPL-${v.callsign}${ssr}-IS-${adep}-${boundary}-${route}-${ades})`;
+    }
+    case 'ACP':
+      return `(ACP-${v.callsign}-${adep}-${ades})`;
+    default:
+      throw new Error(`Unknown message type ${type}`);
+  }
+}
+
+const CS = `(${CALLSIGN_PATTERN})`;
+const SSR = '(?:/A([0-7]{4}))?';
+const AD = '([A-Z]{4})';
+const BOUNDARY = '([A-Z0-9]{2,7})(?:/(\\d{4}))?(?:F(\\d{3}))?';
+// Speed and level, then the route; a route written without them follows the dash directly.
+const CRUISE_ROUTE = '(?:(?:(?:M(\\d{3})|N\\d{4})(?:F\\d{3})?|F\\d{3})((?: [A-Z0-9/]+)*)|([A-Z0-9/]+(?: [A-Z0-9/]+)*))?';
+
+const STRUCTURED = {
+  EST: new RegExp(`^\\(EST-${CS}${SSR}-${AD}-${BOUNDARY}-${AD}\\)$`),
+  CPL: new RegExp(`^\\(CPL-${CS}${SSR}-[A-Z]{1,2}-${AD}-${BOUNDARY}-${CRUISE_ROUTE}-${AD}\\)$`),
+  ACP: new RegExp(`^\\(ACP-${CS}-${AD}-${AD}\\)$`)
+};
+
+/** ZZZZ stands for a fix or aerodrome the card did not have. */
+const known = (value) => (value === UNKNOWN_AERODROME ? undefined : value);
+
+const laneForFix = (config, fix) => config.lanes.find((l) => l.key !== INBOX_LANE && l.fixes.includes(fix))?.key;
+
+/** Regex matching text produced by a lane template, or null when the template has no {callsign}. */
+function templatePattern(format) {
+  if (!format.includes('{callsign}')) return null;
+  const seen = new Set();
+  const body = format
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      const m = part.match(/^\{(\w+)\}$/);
+      if (!m) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+      if (seen.has(m[1])) return '\\S+';
+      seen.add(m[1]);
+      return m[1] === 'route' ? `(?<route>.*?)` : `(?<${m[1]}>\\S+)`;
+    })
+    .join('')
+    .replace(/(\\s\+)+/g, '\\s+');
+  return new RegExp(`^${body}$`);
+}
+
+/**
+ * Turn a pasted message back into card values. Only fields present in the
+ * message are returned, so applying it never blanks what the card already has.
+ * @param {string} text
+ * @param {FacilityConfig} config
+ * @returns {ParsedMessage | { error: string }}
+ */
+export function parseMessage(text, config) {
+  const msg = text.toUpperCase().replace(/\s+/g, ' ').replace(/\( /g, '(').replace(/ \)/g, ')').trim();
+  if (!msg) return { error: 'Paste a message first' };
+
+  let type = 'TEXT';
+  let raw = null;
+  let extra = {};
+  for (const [t, re] of Object.entries(STRUCTURED)) {
+    const m = msg.match(re);
+    if (!m) continue;
+    type = t;
+    if (t === 'ACP') {
+      raw = { callsign: m[1] };
+      extra = { adep: known(m[2]), ades: known(m[3]) };
+    } else if (t === 'EST') {
+      raw = { callsign: m[1], squawk: m[2], fix: known(m[4]), estimate: m[5], altitude: m[6] };
+      extra = { adep: known(m[3]), ades: known(m[7]) };
+    } else {
+      const route = (m[8] ?? m[9])?.trim();
+      raw = { callsign: m[1], squawk: m[2], fix: known(m[4]), estimate: m[5], altitude: m[6], mach: m[7]?.replace(/^0/, ''), route };
+      extra = { adep: known(m[3]), ades: known(m[10]) };
+    }
+    raw.lane = laneForFix(config, raw.fix) || '';
+    break;
+  }
+  if (!raw && msg.startsWith('(')) return { error: `Not a recognised ${MESSAGE_TYPES.join('/')} message` };
+
+  // Free text: try each lane's template, most specific (longest) first.
+  if (!raw) {
+    const lanes = [...config.lanes].sort((a, b) => b.copyFormat.length - a.copyFormat.length);
+    for (const lane of lanes) {
+      const m = templatePattern(lane.copyFormat)?.exec(msg);
+      if (!m?.groups) continue;
+      const g = Object.fromEntries(Object.entries(m.groups).map(([k, v]) => [k, v === '—' ? '' : v]));
+      // Several lanes often share a template, so the fix decides the lane where it can.
+      const fix = g.fix || g.waypoint;
+      raw = { ...g, fix, lane: g.lane || laneForFix(config, fix) || (lane.key === INBOX_LANE ? '' : lane.key) };
+      break;
+    }
+    if (!raw) return { error: 'Message matches neither EST/CPL/ACP nor any lane template' };
+  }
+
+  const result = normalizeCard(raw, config);
+  if ('error' in result) return { error: result.error };
+  const { fields, lane } = result.card;
+  const present = (k) => raw[k] != null && String(raw[k]).trim() !== '';
+  /** @type {ParsedMessage} */
+  const parsed = {
+    type,
+    callsign: fields.callsign,
+    lane: raw.lane ? lane : undefined,
+    fields: {},
+    ...extra
+  };
+  if (present('fix')) parsed.fields.waypoint = fields.waypoint;
+  for (const k of ['estimate', 'altitude', 'mach', 'squawk']) if (present(k)) parsed.fields[k] = fields[k];
+  if (present('route')) parsed.routeWaypoints = fields.routeWaypoints;
+  return parsed;
+}
@@ -0,0 +1,304 @@
+// ---- Board operations (shared by server.mjs and the client) ----
+// Pure functions: validateOp() explains why an op cannot apply, applyOp() returns a new state.
+
+import { COORD_LABELS, applyCoordOp, coordAfterPatch, coordOf, draftCoordination, validateCoordOp } from './coordination.mjs';
+import { opPayloadError } from './schema.mjs';
+
+/** @typedef {import('./types').BoardState} BoardState */
+/** @typedef {import('./types').BoardOp} BoardOp */
+/** @typedef {import('./types').SequencedOp} SequencedOp */
+
+/** Fields a client may change through `item:patch`. */
+export const PATCHABLE_FIELDS = ['waypoint', 'estimate', 'altitude', 'mach', 'squawk'];
+
+/** Op types only the server issues; clients submitting them are rejected. */
+export const SERVER_OPS = ['item:link', 'item:sync'];
+
+const LINK_FILLS = ['routeWaypoints', 'altitude', 'squawk'];
+const SYNC_FILLS = ['route', 'routeWaypoints', 'squawk'];
+
+/**
+ * Lane currently holding `id`, or undefined.
+ * @param {BoardState} state
+ * @param {string} id
+ * @returns {import('./types').LaneKey | undefined}
+ */
+export function laneOf(state, id) {
+  return /** @type {any} */ (Object.keys(state.lanes).find((k) => state.lanes[k].includes(id)));
+}
+
+const isIndex = (n) => n === undefined || (Number.isInteger(n) && n >= 0);
+
+// Ids and lane keys come from clients, so only own keys count: "toString" or "__proto__"
+// is not a lane, and "constructor" is not a card.
+const has = (record, key) => record != null && typeof key === 'string' && Object.hasOwn(record, key);
+
+/**
+ * @param {BoardState} state
+ * @param {BoardOp} op
+ * @returns {string | null} reason the op is rejected, or null when it is valid
+ */
+export function validateOp(state, op) {
+  if (!op || typeof op !== 'object') return 'Operation must be an object';
+  const malformed = opPayloadError(op);
+  if (malformed) return malformed;
+  switch (op.type) {
+    case 'item:add': {
+      const { item, lane, index } = op;
+      if (!item || typeof item.id !== 'string' || !item.id) return 'Card needs an id';
+      if (item.id in {}) return `"${item.id}" cannot be a card id`;
+      if (typeof item.callsign !== 'string' || !item.callsign.trim()) return 'Card needs a callsign';
+      if (has(state.items, item.id) || has(state.completed, item.id)) return `Card ${item.id} already exists`;
+      if (!has(state.lanes, lane)) return `Unknown lane "${lane}"`;
+      if (!isIndex(index)) return 'Index must be a non-negative integer';
+      const cs = item.callsign.toLowerCase();
+      if (Object.values(state.items).some((x) => x.callsign.toLowerCase() === cs)) {
+        return `${item.callsign} is already on the board`;
+      }
+      return null;
+    }
+    case 'item:patch': {
+      if (!has(state.items, op.id)) return 'Card no longer exists';
+      if (!op.patch || typeof op.patch !== 'object') return 'Patch must be an object';
+      const bad = Object.keys(op.patch).find((k) => !PATCHABLE_FIELDS.includes(k) || typeof op.patch[k] !== 'string');
+      return bad ? `Field "${bad}" cannot be patched` : null;
+    }
+    case 'item:move':
+      if (!has(state.items, op.id) || !laneOf(state, op.id)) return 'Card no longer exists';
+      if (!has(state.lanes, op.to)) return `Unknown lane "${op.to}"`;
+      return isIndex(op.index) ? null : 'Index must be a non-negative integer';
+    case 'item:reorder':
+      if (!has(state.items, op.id) || !laneOf(state, op.id)) return 'Card no longer exists';
+      return isIndex(op.index) ? null : 'Index must be a non-negative integer';
+    case 'item:delete':
+      return has(state.items, op.id) ? null : 'Card no longer exists';
+    case 'item:complete':
+      return has(state.items, op.id) && laneOf(state, op.id) ? null : 'Card no longer exists';
+    case 'item:reactivate': {
+      if (!has(state.completed, op.id)) return 'Card is not in the archive';
+      const done = state.completed[op.id];
+      if (!has(state.lanes, op.lane)) return `Unknown lane "${op.lane}"`;
+      if (!isIndex(op.index)) return 'Index must be a non-negative integer';
+      const cs = done.item.callsign.toLowerCase();
+      return Object.values(state.items).some((x) => x.callsign.toLowerCase() === cs)
+        ? `${done.item.callsign} is already on the board`
+        : null;
+    }
+    case 'item:coord':
+      if (!has(state.items, op.id)) return 'Card no longer exists';
+      return validateCoordOp(state.items[op.id], op, laneOf(state, op.id));
+    case 'item:link': {
+      if (!has(state.items, op.id)) return 'Card no longer exists';
+      if (!Number.isInteger(op.cid)) return 'Link needs a CID';
+      const bad = Object.keys(op.fill || {}).find((k) => !LINK_FILLS.includes(k));
+      return bad ? `Field "${bad}" cannot be filled by a link` : null;
+    }
+    case 'item:sync': {
+      if (!has(state.items, op.id)) return 'Card no longer exists';
+      if (op.lastSeen !== null && !Number.isFinite(op.lastSeen)) return 'Sync needs a last-seen time or null';
+      const bad = Object.keys(op.fill || {}).find((k) => !SYNC_FILLS.includes(k));
+      return bad ? `Field "${bad}" cannot be filled from the feed` : null;
+    }
+    default:
+      return `Unknown operation "${op.type}"`;
+  }
+}
+
+function insertAt(arr, id, index) {
+  const out = arr.filter((x) => x !== id);
+  if (typeof index === 'number') out.splice(index, 0, id);
+  else out.unshift(id);
+  return out;
+}
+
+/** Whether the card and lanes `op` works on are all there. */
+function fits(state, op) {
+  switch (op.type) {
+    case 'item:add':
+      return has(state.lanes, op.lane);
+    case 'item:move':
+      return has(state.items, op.id) && laneOf(state, op.id) !== undefined && has(state.lanes, op.to);
+    case 'item:reorder':
+    case 'item:complete':
+      return has(state.items, op.id) && laneOf(state, op.id) !== undefined;
+    case 'item:reactivate':
+      return has(state.completed, op.id) && has(state.lanes, op.lane);
+    case 'item:delete':
+      return true;
+    default:
+      return has(state.items, op.id);
+  }
+}
+
+/**
+ * Apply a (validated) op. Lane positions are resolved against the current
+ * state, so concurrent moves of different cards never clobber each other.
+ * An op that does not fit the board (its card or lane is gone) leaves it unchanged.
+ * @param {BoardState} state
+ * @param {BoardOp} op
+ * @returns {BoardState}
+ */
+export function applyOp(state, op) {
+  if (!fits(state, op)) return state;
+  switch (op.type) {
+    case 'item:add':
+      return {
+        ...state,
+        items: { ...state.items, [op.item.id]: op.item },
+        lanes: { ...state.lanes, [op.lane]: insertAt(state.lanes[op.lane], op.item.id, op.index) },
+      };
+    case 'item:patch': {
+      const item = state.items[op.id];
+      return {
+        ...state,
+        items: { ...state.items, [op.id]: { ...item, ...op.patch, coord: coordAfterPatch(item, op.patch, op.at) } },
+      };
+    }
+    case 'item:move': {
+      const from = laneOf(state, op.id);
+      const lanes = { ...state.lanes, [from]: state.lanes[from].filter((x) => x !== op.id) };
+      lanes[op.to] = insertAt(lanes[op.to], op.id, op.index);
+      // A different facility has to coordinate from scratch.
+      const items = from === op.to
+        ? state.items
+        : { ...state.items, [op.id]: { ...state.items[op.id], coord: draftCoordination() } };
+      return { ...state, lanes, items };
+    }
+    case 'item:reorder': {
+      const lane = laneOf(state, op.id);
+      return { ...state, lanes: { ...state.lanes, [lane]: insertAt(state.lanes[lane], op.id, op.index) } };
+    }
+    case 'item:delete': {
+      const items = { ...state.items };
+      delete items[op.id];
+      const lanes = Object.fromEntries(
+        Object.entries(state.lanes).map(([k, ids]) => [k, ids.filter((x) => x !== op.id)])
+      );
+      return { ...state, items, lanes: /** @type {any} */ (lanes) };
+    }
+    case 'item:complete': {
+      const lane = laneOf(state, op.id);
+      const { [op.id]: item, ...items } = state.items;
+      return {
+        ...state,
+        items,
+        lanes: { ...state.lanes, [lane]: state.lanes[lane].filter((x) => x !== op.id) },
+        completed: { ...state.completed, [op.id]: { item, lane, completedAt: op.at ?? null } },
+      };
+    }
+    case 'item:reactivate': {
+      const { [op.id]: done, ...completed } = state.completed;
+      // Back in the lane it left, the agreed coordination stands; another facility starts over.
+      const item = op.lane === done.lane ? done.item : { ...done.item, coord: draftCoordination() };
+      return {
+        ...state,
+        completed,
+        items: { ...state.items, [op.id]: item },
+        lanes: { ...state.lanes, [op.lane]: insertAt(state.lanes[op.lane], op.id, op.index) },
+      };
+    }
+    case 'item:coord':
+      return { ...state, items: { ...state.items, [op.id]: applyCoordOp(state.items[op.id], op) } };
+    case 'item:link':
+      return { ...state, items: { ...state.items, [op.id]: { ...state.items[op.id], ...op.fill, vatsimCid: op.cid } } };
+    case 'item:sync': {
+      const { lastSeen, ...item } = { ...state.items[op.id], ...op.fill };
+      return { ...state, items: { ...state.items, [op.id]: op.lastSeen === null ? item : { ...item, lastSeen: op.lastSeen } } };
+    }
+    default:
+      return state;
+  }
+}
+
+/**
+ * Apply a server-sequenced op, advancing the board version.
+ * @param {BoardState} state
+ * @param {SequencedOp} entry
+ * @returns {BoardState}
+ */
+export function applySequenced(state, entry) {
+  return { ...applyOp(state, entry.op), version: entry.seq, lastUpdated: entry.ts };
+}
+
+/**
+ * The op that reverses `op` when applied right after it, computed from the
+ * state *before* `op`. Coordination actions are agreements with another
+ * facility and are not undoable, so they return null.
+ * @param {BoardState} state
+ * @param {BoardOp} op
+ * @returns {BoardOp | null}
+ */
+export function invertOp(state, op) {
+  switch (op.type) {
+    case 'item:add':
+      return { type: 'item:delete', id: op.item.id };
+    case 'item:patch': {
+      const item = state.items[op.id];
+      if (!item) return null;
+      return { type: 'item:patch', id: op.id, patch: Object.fromEntries(Object.keys(op.patch).map((k) => [k, item[k] ?? ''])) };
+    }
+    case 'item:move': {
+      const from = laneOf(state, op.id);
+      return from ? { type: 'item:move', id: op.id, to: from, index: state.lanes[from].indexOf(op.id) } : null;
+    }
+    case 'item:reorder': {
+      const lane = laneOf(state, op.id);
+      return lane ? { type: 'item:reorder', id: op.id, index: state.lanes[lane].indexOf(op.id) } : null;
+    }
+    case 'item:delete': {
+      const lane = laneOf(state, op.id);
+      const item = state.items[op.id];
+      if (!lane || !item) return null;
+      return { type: 'item:add', item, lane, index: state.lanes[lane].indexOf(op.id), restore: true };
+    }
+    case 'item:complete': {
+      const lane = laneOf(state, op.id);
+      return lane ? { type: 'item:reactivate', id: op.id, lane, index: state.lanes[lane].indexOf(op.id) } : null;
+    }
+    case 'item:reactivate':
+      return state.completed?.[op.id] ? { type: 'item:complete', id: op.id } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether replaying a queued op would overwrite a change somebody else made after it was
+ * queued. `base` is the card (and its lane) as the server had confirmed it at that time;
+ * changes that match the op itself are ours, applied before the connection dropped.
+ * @param {BoardState} state  the board as the server has it now
+ * @param {BoardOp} op
+ * @param {{ item?: import('./types').BoardItem, lane?: string } | undefined} base
+ * @returns {string | null} what changed meanwhile, or null when the op can be replayed as is
+ */
+export function replayConflict(state, op, base) {
+  if (!base?.item || op.type === 'item:add') return null;
+  const was = base.item;
+  const now = state.items[op.id];
+  if (!now) return op.type === 'item:delete' || op.type === 'item:complete' ? null : `${was.callsign} was removed by someone else`;
+  const lane = laneOf(state, op.id);
+  switch (op.type) {
+    case 'item:patch': {
+      const changed = Object.keys(op.patch).filter((k) => (now[k] ?? '') !== (was[k] ?? '') && now[k] !== op.patch[k]);
+      if (!changed.length) return null;
+      return `${was.callsign}: ${changed.map((k) => `${k} is now ${now[k] || '—'} (yours: ${op.patch[k] || '—'})`).join(', ')}`;
+    }
+    case 'item:move':
+      return lane !== base.lane && lane !== op.to ? `${was.callsign} was moved to ${lane}` : null;
+    case 'item:reorder':
+      return lane !== base.lane ? `${was.callsign} was moved to ${lane}` : null;
+    case 'item:coord': {
+      const status = coordOf(now).status;
+      if (status === coordOf(was).status || status === coordOf(applyCoordOp(was, op)).status) return null;
+      return `${was.callsign} is now ${COORD_LABELS[status].toLowerCase()}`;
+    }
+    case 'item:delete':
+    case 'item:complete': {
+      const edited = lane !== base.lane || PATCHABLE_FIELDS.some((k) => (now[k] ?? '') !== (was[k] ?? ''));
+      const verb = op.type === 'item:delete' ? 'removed' : 'completed';
+      return edited ? `${was.callsign} was changed by someone else after you ${verb} it` : null;
+    }
+    default:
+      return null;
+  }
+}
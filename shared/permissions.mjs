@@ -0,0 +1,62 @@
+// ---- Roles and lane ownership (enforced by server.mjs, mirrored by the client) ----
+// observer: read-only · controller: edits cards · admin: also resets, restores and configures.
+// A controller signed in for an adjacent facility only touches cards in that facility's
+// lane. Lanes marked `facilityOnly` keep accept/counter/reject for their own controllers.
+
+import { laneOf } from './ops.mjs';
+
+/** @typedef {import('./types').Role} Role */
+/** @typedef {import('./types').Session} Session */
+/** @typedef {import('./types').BoardState} BoardState */
+/** @typedef {import('./types').BoardOp} BoardOp */
+/** @typedef {import('./types').FacilityConfig} FacilityConfig */
+
+/** Lowest first. @type {Role[]} */
+export const ROLES = ['observer', 'controller', 'admin'];
+
+/** Coordination answers that belong to the receiving facility. */
+const RESPONSES = ['accept', 'counter', 'reject'];
+
+/**
+ * @param {Session} session
+ * @param {Role} role
+ */
+export const hasRole = (session, role) => ROLES.indexOf(session.role) >= ROLES.indexOf(role);
+
+/** @param {BoardState} state @param {BoardOp} op @returns {string[]} */
+function lanesTouched(state, op) {
+  switch (op.type) {
+    case 'item:add':
+      return [op.lane];
+    case 'item:move':
+      return [laneOf(state, op.id), op.to];
+    case 'item:reactivate':
+      return [op.lane];
+    default:
+      return [laneOf(state, op.id)];
+  }
+}
+
+/**
+ * Why `session` may not submit `op`, or null when it may.
+ * @param {Session} session
+ * @param {BoardState} state
+ * @param {BoardOp} op
+ * @param {FacilityConfig} config
+ * @returns {string | null}
+ */
+export function opPermission(session, state, op, config) {
+  if (hasRole(session, 'admin')) return null;
+  if (!hasRole(session, 'controller')) return 'Observers cannot change the board';
+  const lanes = lanesTouched(state, op).filter(Boolean);
+  if (session.facility !== config.homeFacility) {
+    return lanes.some((l) => l !== session.facility)
+      ? `${session.facility} controllers can only change cards in the ${session.facility} lane`
+      : null;
+  }
+  if (op.type === 'item:coord' && RESPONSES.includes(op.action)) {
+    const lane = config.lanes.find((l) => l.key === lanes[0]);
+    if (lane?.facilityOnly) return `Only ${lane.key} controllers can ${op.action} cards in the ${lane.key} lane`;
+  }
+  return null;
+}
@@ -0,0 +1,20 @@
+// ---- Lane / exit-fix suggestions from the filed route ----
+// Only fixes named in the route count. Airways are not expanded, so a boundary fix the
+// route crosses on an airway without filing it is not suggested.
+
+/**
+ * Every lane whose fix list appears in the route, in route order.
+ * More than one entry means the route crosses several adjacent facilities.
+ * @param {string[]} routeWaypoints
+ * @param {Record<string, string[] | undefined>} laneFixes
+ * @returns {{ lane: string, fix: string, position: number }[]}
+ */
+export function suggestLanes(routeWaypoints, laneFixes) {
+  const route = routeWaypoints || [];
+  const matches = [];
+  for (const [lane, fixes] of Object.entries(laneFixes)) {
+    const position = route.findIndex((w) => fixes?.includes(w));
+    if (position !== -1) matches.push({ lane, fix: route[position], position });
+  }
+  return matches.sort((x, y) => x.position - y.position);
+}
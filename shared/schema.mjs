@@ -0,0 +1,331 @@
+// ---- Payload schemas (enforced by server.mjs, mirrored by the client) ----
+// Small hand-written checks rather than a schema library. Each check returns the first
+// problem as a sentence for the sender, or null. Board ops are checked by validateOp()
+// through opPayloadError(); every other socket event has an entry in EVENT_SCHEMAS.
+
+import { hhmmToMinutes } from './geo.mjs';
+
+/** @typedef {import('./types').BoardItem} BoardItem */
+/** @typedef {import('./types').BoardState} BoardState */
+/** @typedef {import('./types').BoardOp} BoardOp */
+/** @typedef {(value: any) => string | null} Check */
+
+/** Largest socket message the server accepts (a board restore); bigger ones drop the connection. */
+export const MAX_PAYLOAD_BYTES = 1_000_000;
+/** Largest message for every other event. */
+export const MAX_EVENT_BYTES = 32_000;
+/** Events that may carry up to MAX_PAYLOAD_BYTES. */
+const LARGE_EVENTS = ['board:restore', 'config:update', 'webhooks:update'];
+
+const MAX_ID = 64;
+const MAX_ROUTE = 2000;
+const MAX_ROUTE_WAYPOINTS = 300;
+const MAX_NAME = 32; // positions and facility names in coordination records
+
+const isObject = (v) => !!v && typeof v === 'object' && !Array.isArray(v);
+
+// Times are accepted while still being typed: "1", "14" and "143" can all become a valid HHMM.
+const isTimeEntry = (s) => s === '' || (/^\d{1,4}$/.test(s) && hhmmToMinutes(s.padEnd(4, '0')) !== null);
+
+/** A callsign, as a regex source so messages and commands can embed it. */
+export const CALLSIGN_PATTERN = '[A-Z0-9][A-Z0-9_-]{1,11}';
+const CALLSIGN = new RegExp(`^${CALLSIGN_PATTERN}$`, 'i');
+
+/**
+ * Formats of the editable card fields. `entry` is what a card may hold, including values
+ * still being typed; `complete` is what a counter-proposal has to offer.
+ * @type {Record<keyof import('./types').BoardItemFields, { entry: (s: string) => boolean, complete: (s: string) => boolean, message: string }>}
+ */
+export const FIELD_FORMATS = {
+  callsign: {
+    entry: (s) => CALLSIGN.test(s),
+    complete: (s) => CALLSIGN.test(s),
+    message: 'Callsign must be 2–12 letters or digits',
+  },
+  waypoint: {
+    entry: (s) => /^([A-Z0-9]{2,7})?$/.test(s),
+    complete: (s) => /^[A-Z0-9]{2,7}$/.test(s),
+    message: 'Fix must be a 2–7 character identifier',
+  },
+  estimate: {
+    entry: isTimeEntry,
+    complete: (s) => /^\d{4}$/.test(s) && hhmmToMinutes(s) !== null,
+    message: 'Estimate must be a UTC time as HHMM',
+  },
+  altitude: {
+    entry: (s) => /^(FL\d{1,3})?$/.test(s),
+    complete: (s) => /^FL\d{3}$/.test(s),
+    message: 'Altitude must be a flight level like FL350',
+  },
+  mach: {
+    entry: (s) => /^(M\d{1,2})?$/.test(s),
+    complete: (s) => /^M\d{2}$/.test(s),
+    message: 'Mach must look like M82',
+  },
+  squawk: {
+    entry: (s) => /^([0-7]{4})?$/.test(s),
+    complete: (s) => /^[0-7]{4}$/.test(s),
+    message: 'Squawk must be four digits 0–7',
+  },
+};
+
+/* ---- building blocks ---- */
+
+/** @returns {Check} */
+const text = (label, max, { optional = false, nullable = false } = {}) => (v) => {
+  if ((optional && v === undefined) || (nullable && v === null)) return null;
+  if (typeof v !== 'string') return `${label} must be text`;
+  return v.length > max ? `${label} is longer than ${max} characters` : null;
+};
+
+/** @returns {Check} */
+const integer = (label, { optional = false, nullable = false, min = 0 } = {}) => (v) => {
+  if ((optional && v === undefined) || (nullable && v === null)) return null;
+  return Number.isInteger(v) && v >= min ? null : `${label} must be a whole number${min ? ` from ${min}` : ''}`;
+};
+
+/** @returns {Check} */
+const time = (label, { optional = false, nullable = false } = {}) => (v) => {
+  if ((optional && v === undefined) || (nullable && v === null)) return null;
+  return Number.isFinite(v) && v >= 0 ? null : `${label} must be a timestamp`;
+};
+
+/** @returns {Check} */
+const oneOf = (label, values, { optional = false } = {}) => (v) =>
+  (optional && v === undefined) || values.includes(v) ? null : `${label} must be one of ${values.join(', ')}`;
+
+/** @returns {Check} */
+const flag = (label, { optional = false } = {}) => (v) =>
+  (optional && v === undefined) || typeof v === 'boolean' ? null : `${label} must be true or false`;
+
+/** @returns {Check} */
+const field = (key, { optional = false, complete = false } = {}) => (v) => {
+  if (optional && v === undefined) return null;
+  const format = FIELD_FORMATS[key];
+  return typeof v === 'string' && (complete ? format.complete : format.entry)(v) ? null : format.message;
+};
+
+/**
+ * An object with exactly these keys (missing ones are checked as `undefined`).
+ * @param {string} label
+ * @param {Record<string, Check>} checks
+ * @returns {Check}
+ */
+const shape = (label, checks) => (v) => {
+  if (!isObject(v)) return `${label} must be an object`;
+  const unknown = Object.keys(v).find((k) => !(k in checks));
+  if (unknown !== undefined) return `${label} has an unknown field "${unknown}"`;
+  for (const [k, check] of Object.entries(checks)) {
+    const problem = check(v[k]);
+    if (problem) return problem;
+  }
+  return null;
+};
+
+/** Like shape(), but every key is optional and at least one is required. @returns {Check} */
+const someOf = (label, checks) => (v) => {
+  if (!isObject(v) || !Object.keys(v).length) return `${label} must name at least one field`;
+  const unknown = Object.keys(v).find((k) => !(k in checks));
+  if (unknown !== undefined) return `Field "${unknown}" cannot be changed`;
+  for (const [k, val] of Object.entries(v)) {
+    const problem = checks[k](val);
+    if (problem) return problem;
+  }
+  return null;
+};
+
+const nothing = () => null;
+
+/* ---- board model ---- */
+
+const coordValues = (complete) =>
+  someOf('Coordination values', {
+    waypoint: field('waypoint', { complete }),
+    estimate: field('estimate', { complete }),
+    altitude: field('altitude', { complete }),
+    mach: field('mach', { complete }),
+  });
+
+// Cards from before amendments and acceptance tracking lack some of these keys.
+/** @type {Check} */
+const checkCoordination = shape('Coordination', {
+  status: oneOf('Coordination status', ['draft', 'proposed', 'counter', 'accepted', 'rejected']),
+  amendment: integer('Amendment', { optional: true }),
+  counter: (v) => (v == null ? null : coordValues(true)(v)),
+  by: text('Coordinated by', MAX_NAME, { optional: true, nullable: true }),
+  at: time('Coordination time', { optional: true, nullable: true }),
+  acceptedBy: text('Accepted by', MAX_NAME, { optional: true, nullable: true }),
+  acceptedAt: time('Acceptance time', { optional: true, nullable: true }),
+});
+
+const routeWaypoints = (v) =>
+  Array.isArray(v) && v.length <= MAX_ROUTE_WAYPOINTS && v.every((w) => typeof w === 'string' && /^[A-Z0-9]{2,7}$/.test(w))
+    ? null
+    : `Route must be a list of at most ${MAX_ROUTE_WAYPOINTS} fix identifiers`;
+
+/**
+ * A whole card, as added, restored or imported from an export.
+ * @type {(item: unknown) => string | null}
+ */
+export const validateItem = shape('Card', {
+  id: text('Card id', MAX_ID),
+  source: oneOf('Card source', ['manual', 'vatsim']),
+  callsign: field('callsign'),
+  waypoint: field('waypoint'),
+  estimate: field('estimate'),
+  altitude: field('altitude'),
+  mach: field('mach'),
+  squawk: field('squawk'),
+  routeWaypoints,
+  route: text('Route', MAX_ROUTE, { optional: true }),
+  vatsimCid: integer('VATSIM CID', { optional: true, min: 1 }),
+  lastSeen: time('Last seen', { optional: true }),
+  coord: (v) => (v === undefined ? null : checkCoordination(v)),
+});
+
+const validateCompleted = shape('Completed card', {
+  item: validateItem,
+  lane: text('Lane', MAX_NAME),
+  completedAt: time('Completion time', { nullable: true }),
+});
+
+/**
+ * Lanes hold card ids, every card sits in exactly one lane and every listed id is a card.
+ * Completed cards are off the board.
+ * @param {unknown} state
+ * @returns {string | null}
+ */
+export function validateBoardState(state) {
+  if (!isObject(state) || !isObject(state.lanes) || !isObject(state.items)) return 'Board state needs lanes and items';
+  const placed = new Set();
+  for (const [lane, ids] of Object.entries(state.lanes)) {
+    if (lane.length > MAX_NAME) return `Lane name "${lane.slice(0, MAX_NAME)}…" is too long`;
+    if (!Array.isArray(ids)) return `Lane "${lane}" is not a list`;
+    for (const id of ids) {
+      if (typeof id !== 'string' || !Object.hasOwn(state.items, id)) return `Lane "${lane}" lists a card that is not on the board`;
+      if (placed.has(id)) return `Card ${id} is in more than one lane`;
+      placed.add(id);
+    }
+  }
+  for (const [id, item] of Object.entries(state.items)) {
+    if (!placed.has(id)) return `Card ${item?.callsign || id} is not in any lane`;
+    const problem = validateItem(item);
+    if (problem) return `Card ${item?.callsign || id}: ${problem}`;
+    if (item.id !== id) return `Card ${id} is filed under the wrong id`;
+  }
+  if (state.completed === undefined) return null;
+  if (!isObject(state.completed)) return 'Completed cards must be an object';
+  for (const [id, done] of Object.entries(state.completed)) {
+    const problem = validateCompleted(done);
+    if (problem) return `Completed card ${done?.item?.callsign || id}: ${problem}`;
+    if (done.item.id !== id) return `Completed card ${id} is filed under the wrong id`;
+    if (Object.hasOwn(state.items, id)) return `Card ${done.item.callsign} is both on the board and completed`;
+  }
+  return null;
+}
+
+/* ---- ops and socket events ---- */
+
+const index = integer('Index', { optional: true });
+const stamp = time('Time', { optional: true }); // `at`, set by the server when it sequences an op
+
+/** The ops clients may submit. Server-generated ones (link, sync) are checked in validateOp. */
+const OP_SCHEMAS = {
+  'item:add': shape('Add', { type: nothing, item: validateItem, lane: text('Lane', MAX_NAME), index, restore: flag('Restore', { optional: true }), at: stamp }),
+  'item:patch': shape('Change', {
+    type: nothing,
+    id: text('Card id', MAX_ID),
+    patch: someOf('Change', {
+      waypoint: field('waypoint'),
+      estimate: field('estimate'),
+      altitude: field('altitude'),
+      mach: field('mach'),
+      squawk: field('squawk'),
+    }),
+    at: stamp,
+  }),
+  'item:move': shape('Move', { type: nothing, id: text('Card id', MAX_ID), to: text('Lane', MAX_NAME), index, at: stamp }),
+  'item:reorder': shape('Reorder', { type: nothing, id: text('Card id', MAX_ID), index: integer('Index'), at: stamp }),
+  'item:delete': shape('Remove', { type: nothing, id: text('Card id', MAX_ID), at: stamp }),
+  'item:complete': shape('Complete', { type: nothing, id: text('Card id', MAX_ID), at: stamp }),
+  'item:reactivate': shape('Reactivate', { type: nothing, id: text('Card id', MAX_ID), lane: text('Lane', MAX_NAME), index, at: stamp }),
+  'item:coord': shape('Coordination', {
+    type: nothing,
+    id: text('Card id', MAX_ID),
+    action: oneOf('Coordination action', ['propose', 'counter', 'accept', 'reject']),
+    by: text('Coordinated by', MAX_NAME, { optional: true, nullable: true }),
+    counter: (v) => (v === undefined ? null : coordValues(true)(v)),
+    at: stamp,
+  }),
+};
+
+/**
+ * Why a client op is malformed (wrong shape, unknown fields, bad formats), or null.
+ * Whether it fits the board as it is now is validateOp's job.
+ * @param {BoardOp} op
+ * @returns {string | null}
+ */
+export function opPayloadError(op) {
+  const check = OP_SCHEMAS[/** @type {any} */ (op)?.type];
+  return check ? check(op) : null;
+}
+
+/**
+ * Socket events a client may send, with the shape of their first argument. Deeper checks
+ * (facility configuration, webhooks, board exports, identities) run in the handlers.
+ * @type {Record<string, Check>}
+ */
+export const EVENT_SCHEMAS = {
+  'session:identify': (v) =>
+    isObject(v) && 'token' in v
+      ? shape('Session', { token: text('Session token', 1000) })(v)
+      : shape('Identity', {
+          cid: text('CID', 16),
+          callsign: text('Position', MAX_NAME),
+          facility: text('Facility', MAX_NAME),
+          code: text('Access code', 200, { optional: true }),
+        })(v),
+  'field:focus': shape('Focus', { itemId: text('Card id', MAX_ID), field: oneOf('Field', Object.keys(FIELD_FORMATS)) }),
+  'field:blur': nothing,
+  'vatsim:search': shape('Search', { q: text('Search', 32), limit: integer('Limit', { optional: true, min: 1 }) }),
+  'config:update': shape('Configuration update', {
+    config: (v) => (isObject(v) ? null : 'Configuration must be an object'),
+    renames: (v) =>
+      v === undefined || (isObject(v) && Object.values(v).every((n) => typeof n === 'string')) ? null : 'Renames must map lane names to lane names',
+  }),
+  'webhooks:get': nothing,
+  'webhooks:update': shape('Webhooks update', { hooks: (v) => (Array.isArray(v) ? null : 'Webhooks must be a list') }),
+  'webhooks:test': shape('Webhook test', { id: text('Webhook id', MAX_ID) }),
+  'boards:list': nothing,
+  'board:create': shape('New board', {
+    name: text('Board name', MAX_ID),
+    cloneFrom: text('Board to clone', MAX_ID, { optional: true, nullable: true }),
+    withCards: flag('With cards', { optional: true }),
+  }),
+  'board:join': text('Board name', MAX_ID),
+  'board:pull': nothing,
+  'board:sync': shape('Sync', { since: integer('Version') }),
+  'op:submit': shape('Submission', {
+    opId: text('Operation id', MAX_ID),
+    op: (v) => (isObject(v) && typeof v.type === 'string' ? null : 'Operation must be an object with a type'),
+  }),
+  'item:history': shape('History request', { id: text('Card id', MAX_ID) }),
+  'board:restore': (v) => (isObject(v) ? null : 'Board export must be an object'),
+  'board:download': nothing,
+  'board:reset': nothing,
+};
+
+/**
+ * Why the server refuses a socket event before its handler runs, or null.
+ * @param {string} event
+ * @param {unknown} payload  the first argument
+ * @returns {string | null}
+ */
+export function eventPayloadError(event, payload) {
+  const check = EVENT_SCHEMAS[event];
+  if (!check) return `Unknown event "${event}"`;
+  const limit = LARGE_EVENTS.includes(event) ? MAX_PAYLOAD_BYTES : MAX_EVENT_BYTES;
+  const size = payload === undefined ? 0 : JSON.stringify(payload)?.length ?? 0;
+  if (size > limit) return `Message too large (${Math.ceil(size / 1000)} kB; the limit is ${limit / 1000} kB)`;
+  return check(payload);
+}
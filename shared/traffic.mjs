@@ -0,0 +1,34 @@
+// ---- Cards against live traffic (used by the client on every feed update) ----
+
+/** @typedef {import('./types').BoardItem} BoardItem */
+/** @typedef {import('./types').VatsimPilot} VatsimPilot */
+
+/** The actual altitude may be this far off the coordinated level before it is flagged. */
+export const ALTITUDE_TOLERANCE_FT = 300;
+
+// "FL350", "350" and "35000" are all 35000 ft; null when there is no altitude.
+function feetOf(value) {
+  const s = String(value ?? '').trim().toUpperCase();
+  const n = Number(s.replace(/^FL/, ''));
+  if (!n) return null;
+  return s.startsWith('FL') || n < 1000 ? n * 100 : n;
+}
+
+const flOf = (feet) => `FL${String(Math.round(feet / 100)).padStart(3, '0')}`;
+
+/**
+ * Where the pilot's filed or actual altitude disagrees with the card's coordinated one.
+ * @param {BoardItem} item
+ * @param {VatsimPilot | undefined} pilot
+ * @returns {{ filed?: string, actual?: string } | null} flight levels that differ, or null when both agree
+ */
+export function altitudeMismatch(item, pilot) {
+  if (!pilot || !item.altitude) return null;
+  const coordinated = feetOf(item.altitude);
+  if (coordinated === null) return null;
+  const out = {};
+  const filed = feetOf(pilot.flight_plan?.altitude);
+  if (filed !== null && filed !== coordinated) out.filed = flOf(filed);
+  if (pilot.altitude && Math.abs(pilot.altitude - coordinated) > ALTITUDE_TOLERANCE_FT) out.actual = flOf(pilot.altitude);
+  return out.filed || out.actual ? out : null;
+}
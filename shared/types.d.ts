@@ -0,0 +1,303 @@
+/* ===========================
+   Board model shared by the client (src/) and the server (server.mjs)
+=========================== */
+export interface BoardItemFields {
+  callsign: string;
+  waypoint: string;
+  estimate: string; // HHMM
+  altitude: string; // FL###
+  mach: string;     // M##
+  squawk: string;  // transponder / squawk code
+}
+
+export interface BoardItem extends BoardItemFields {
+  id: string;
+  source: "manual" | "vatsim";
+  routeWaypoints: string[];
+  vatsimCid?: number;   // manual cards: set once the callsign shows up in the VATSIM feed
+  route?: string;       // filed route, kept in step with the live flight plan
+  lastSeen?: number;    // set while the pilot is missing from the feed: when they were last in it
+  coord?: Coordination; // missing on cards created before coordination tracking (= draft)
+}
+
+/* ===========================
+   Coordination lifecycle
+   draft → proposed → accepted
+                    ↘ counter (alternative values) → accepted / rejected
+   Editing a coordinated field after acceptance reopens it as an amendment.
+=========================== */
+export type CoordStatus = "draft" | "proposed" | "counter" | "accepted" | "rejected";
+export type CoordAction = "propose" | "counter" | "accept" | "reject";
+
+// The fields the receiving facility agrees to.
+export type CoordValues = Partial<Pick<BoardItemFields, "waypoint" | "estimate" | "altitude" | "mach">>;
+
+export interface Coordination {
+  status: CoordStatus;
+  amendment: number;          // 0 for the original coordination, +1 each time it is reopened
+  counter: CoordValues | null; // alternative values while status is "counter"
+  by: string | null;          // party behind the last transition
+  at: number | null;          // server time of the last transition
+  acceptedBy: string | null;
+  acceptedAt: number | null;
+}
+
+// Lane names come from the facility configuration (config/facilities.json).
+export type LaneKey = string;
+
+// A card taken off the board with Complete, kept with its final values and the lane it left.
+export interface CompletedCard {
+  item: BoardItem;
+  lane: LaneKey;
+  completedAt: number | null; // server time; null only until the op is sequenced
+}
+
+export interface BoardState {
+  lanes: Record<LaneKey, string[]>;
+  items: Record<string, BoardItem>;
+  completed?: Record<string, CompletedCard>; // the archive, by card id; missing on boards from before it
+  lastUpdated: number; // server time of the last applied operation
+  version: number;     // sequence number of the last applied operation
+}
+
+/* ===========================
+   Operations
+   Every mutation is one of these. The server validates it, stamps it with the
+   next sequence number and broadcasts it; clients apply them in order.
+=========================== */
+export type BoardOp = (
+  | { type: "item:add"; item: BoardItem; lane: LaneKey; index?: number; restore?: boolean }
+  | { type: "item:patch"; id: string; patch: Partial<BoardItemFields> }
+  | { type: "item:move"; id: string; to: LaneKey; index?: number }
+  | { type: "item:reorder"; id: string; index: number }
+  | { type: "item:delete"; id: string }
+  | { type: "item:coord"; id: string; action: CoordAction; by?: string; counter?: CoordValues }
+  // Takes the card off the board into the archive; reactivate puts it back into a lane.
+  | { type: "item:complete"; id: string }
+  | { type: "item:reactivate"; id: string; lane: LaneKey; index?: number }
+  // Server-generated: ties a manual card to the live pilot and fills blanks from the flight plan.
+  | { type: "item:link"; id: string; cid: number; fill: Partial<Pick<BoardItem, "routeWaypoints" | "altitude" | "squawk">> }
+  // Server-generated: follows the pilot's flight plan and squawk, or marks the pilot gone (lastSeen) or back (null).
+  | { type: "item:sync"; id: string; fill: Partial<Pick<BoardItem, "route" | "routeWaypoints" | "squawk">>; lastSeen: number | null }
+) & {
+  at?: number; // stamped by the server when the op is sequenced
+};
+
+export interface SequencedOp {
+  seq: number;
+  opId: string; // client-generated id, echoed back so the sender can drop its pending copy
+  ts: number;
+  op: BoardOp;
+}
+
+/* ===========================
+   Audit history (server-side, append-only)
+=========================== */
+export interface HistoryEntry {
+  seq: number;
+  at: number;     // server time (UTC epoch ms)
+  actor: string;
+  itemId: string;
+  callsign: string;
+  type: "add" | "patch" | "move" | "reorder" | "delete" | "coord" | "link" | "sync" | "complete" | "reactivate";
+  changes?: Record<string, [string, string]>; // patch/link/sync: field -> [before, after]
+  from?: LaneKey;
+  to?: LaneKey;
+  fromIndex?: number;
+  index?: number;
+  restored?: boolean; // add: the card was brought back by an undo
+  action?: CoordAction;
+  counter?: CoordValues;
+  cid?: number;       // link: the VATSIM pilot the card was linked to
+  lastSeen?: number | null; // sync: the pilot left the feed (when last seen) or is back (null)
+}
+
+/* ===========================
+   VATSIM traffic (normalized by the server's feed proxy)
+=========================== */
+export interface VatsimPilot {
+  callsign: string;
+  cid?: number | null;
+  altitude: number;
+  groundspeed: number;
+  heading: number | null;
+  latitude: number;
+  longitude: number;
+  transponder?: string | null;
+  planned_depairport?: string | null;
+  planned_destairport?: string | null;
+  flight_plan?: {
+    departure?: string | null;
+    arrival?: string | null;
+    altitude?: string | null;
+    route?: string | null;
+    assigned_transponder?: string | null;
+  } | null;
+}
+
+export interface VatsimDelta {
+  connected: VatsimPilot[];
+  updated: VatsimPilot[];
+  disconnected: string[]; // callsigns
+  updatedAt: number;
+}
+
+export interface VatsimStatus {
+  count: number;
+  updatedAt: number | null;
+  error: string | null;
+}
+
+/* ===========================
+   Facility configuration (served by the server, edited at /admin)
+=========================== */
+export interface LaneConfig {
+  key: LaneKey;            // lane / facility name, e.g. "Piarco"
+  color: string;           // #rrggbb
+  fixes: string[];         // valid boundary fixes for this lane
+  defaultAltitude: string; // FL### filled in when a card without altitude enters the lane, or ""
+  copyFormat: string;      // e.g. "{callsign} {fix} {estimate} {altitude} {squawk}"
+  separationMinutes?: number; // longitudinal minimum at the same fix and level (default 10)
+  coordinationDeadlineMinutes?: number; // must be accepted this long before the estimate; unset = no deadline
+  facilityOnly?: boolean;     // only this facility's controllers (or admins) may accept/counter/reject here
+}
+
+export interface FacilityConfig {
+  homeFacility: string;         // the unit that owns the board, e.g. "San Juan"
+  estimateDriftMinutes: number; // flag cards whose estimate is this far off the computed ETA
+  removeDisconnectedMinutes?: number; // remove cards whose pilot has been out of the feed this long; unset = keep them
+  autoCompleteMinutes?: number;       // complete cards this long after their estimate passed; unset = only by hand
+  lanes: LaneConfig[];          // in display order; must include "Unassigned"
+}
+
+/* ===========================
+   Separation conflicts (computed on the client from BoardState)
+=========================== */
+export interface Conflict {
+  withId: string;
+  withCallsign: string;
+  fix: string;
+  altitude: string;
+  gapMinutes: number;      // between the two estimates
+  requiredMinutes: number; // lane minimum, plus the overtake when the follower is faster
+  closing: boolean;        // the following aircraft has the higher Mach number
+  message: string;
+}
+
+/* ===========================
+   Deadlines (computed on the client from the estimate and the UTC clock)
+=========================== */
+export type UrgencyLevel = "none" | "ok" | "due" | "late" | "overdue";
+
+export interface Urgency {
+  level: UrgencyLevel;        // none: no estimate · due: deadline close · late: deadline passed uncoordinated · overdue: estimate passed
+  minutes: number | null;     // until the estimate (negative once passed)
+  deadlineIn: number | null;  // until the coordination deadline, while one applies
+}
+
+/* ===========================
+   Archive search (shared/archive.mjs)
+=========================== */
+export interface ArchiveQuery {
+  callsign?: string; // substring, any case
+  fix?: string;
+  lane?: LaneKey;
+  from?: string; // HHMM UTC; with `to`, the range the final estimate falls in (from > to spans midnight)
+  to?: string;
+}
+
+/* ===========================
+   Board export (shared/export.mjs)
+=========================== */
+export interface BoardExport {
+  format: "coord-board";
+  formatVersion: number;
+  board: string;
+  exportedAt: number; // epoch ms
+  state: BoardState;
+}
+
+/* ===========================
+   Lane sorting and filters (shared/filters.mjs)
+=========================== */
+export type LaneSort = "manual" | "estimate" | "fix" | "altitude";
+
+export interface BoardFilter {
+  callsign?: string; // substring, any case
+  fix?: string;
+  minLevel?: string; // FL### band, inclusive
+  maxLevel?: string;
+  status?: CoordStatus;
+}
+
+/* ===========================
+   Command line (shared/commands.mjs)
+=========================== */
+export interface ParsedCommand {
+  verb: "add" | "set" | "delete"; // add: callsign only; set: create or update with the given lane/fields
+  callsign: string;
+  lane?: LaneKey;
+  fields: Partial<Pick<BoardItemFields, "waypoint" | "estimate" | "altitude" | "mach" | "squawk">>;
+  routeWaypoints?: string[]; // only used when the command creates the card
+}
+
+/* ===========================
+   Coordination messages (shared/messages.mjs)
+=========================== */
+export type MessageType = "EST" | "CPL" | "ACP";
+
+export interface ParsedMessage {
+  type: MessageType | "TEXT"; // TEXT: matched one of the lane templates
+  callsign: string;
+  lane?: LaneKey;             // from the fix (structured) or the template's lane
+  fields: Partial<Pick<BoardItemFields, "waypoint" | "estimate" | "altitude" | "mach" | "squawk">>;
+  routeWaypoints?: string[];
+  adep?: string;
+  ades?: string;
+}
+
+/* ===========================
+   Outbound webhooks (shared/webhooks.mjs, server/webhooks.mjs)
+=========================== */
+export type WebhookEvent =
+  | "card.added"
+  | "card.moved"
+  | "card.changed"
+  | "card.coordinated"
+  | "card.completed"
+  | "card.removed"
+  | "card.overdue";
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  format: "json" | "discord";
+  events: WebhookEvent[];
+  lanes: LaneKey[]; // empty: every lane
+  enabled: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  hookId: string;
+  hookName: string;
+  event: WebhookEvent | "test";
+  board: string;
+  callsign: string;
+  attempts: number;
+  status: "pending" | "delivered" | "failed";
+  lastError: string | null; // "HTTP 500", "timeout", …
+  at: number;               // when the event happened
+  updatedAt: number;
+}
+
+/* ===========================
+   Roles and sessions (shared/permissions.mjs, server/auth.mjs)
+=========================== */
+export type Role = "observer" | "controller" | "admin";
+
+export interface Session {
+  role: Role;
+  facility: string | null; // null until the controller identifies
+}
@@ -0,0 +1,62 @@
+// ---- Outbound webhooks (validated on /admin and by the server) ----
+
+/** @typedef {import('./types').Webhook} Webhook */
+
+/** Board events a webhook can subscribe to. */
+export const WEBHOOK_EVENTS = ['card.added', 'card.moved', 'card.changed', 'card.coordinated', 'card.completed', 'card.removed', 'card.overdue'];
+
+/** @type {Record<import('./types').WebhookEvent, string>} */
+export const WEBHOOK_EVENT_LABELS = {
+  'card.added': 'Card added',
+  'card.moved': 'Moved to lane',
+  'card.changed': 'Fields changed',
+  'card.coordinated': 'Coordination (propose, accept, counter, reject)',
+  'card.completed': 'Completed',
+  'card.removed': 'Removed',
+  'card.overdue': 'Estimate overdue',
+};
+
+/** "json" posts the event as is; "discord" posts a Discord (or Slack-compatible) message. */
+export const WEBHOOK_FORMATS = ['json', 'discord'];
+
+/**
+ * @param {unknown} hooks
+ * @param {string[]} laneKeys  lanes a hook may filter on
+ * @returns {string[]} problems, empty when the list is valid
+ */
+export function validateWebhooks(hooks, laneKeys) {
+  if (!Array.isArray(hooks)) return ['Webhooks must be a list'];
+  const errors = [];
+  const ids = new Set();
+  hooks.forEach((h, i) => {
+    const label = h?.name ? `Webhook "${h.name}"` : `Webhook ${i + 1}`;
+    if (!h || typeof h !== 'object') return errors.push(`${label} must be an object`);
+    if (typeof h.id !== 'string' || !h.id) errors.push(`${label} needs an id`);
+    else if (ids.has(h.id)) errors.push(`${label} has a duplicate id`);
+    ids.add(h.id);
+    if (typeof h.name !== 'string' || !h.name.trim()) errors.push(`${label} needs a name`);
+    let url = null;
+    try {
+      url = new URL(h.url);
+    } catch {
+      // reported below
+    }
+    if (!url || !['http:', 'https:'].includes(url.protocol)) errors.push(`${label}: URL must be http(s)`);
+    if (!WEBHOOK_FORMATS.includes(h.format)) errors.push(`${label}: format must be ${WEBHOOK_FORMATS.join(' or ')}`);
+    if (!Array.isArray(h.events) || !h.events.length) errors.push(`${label} needs at least one event`);
+    else if (h.events.some((e) => !WEBHOOK_EVENTS.includes(e))) errors.push(`${label} has an unknown event`);
+    if (!Array.isArray(h.lanes)) errors.push(`${label}: lanes must be a list (empty for all lanes)`);
+    else h.lanes.filter((l) => !laneKeys.includes(l)).forEach((l) => errors.push(`${label}: unknown lane "${l}"`));
+    if (typeof h.enabled !== 'boolean') errors.push(`${label}: enabled must be true or false`);
+  });
+  return errors;
+}
+
+/**
+ * Whether `hook` wants `event`. Lane filters match the lane the card is in after the
+ * change, so "moved to New York" is a card.moved hook filtered on New York.
+ * @param {Webhook} hook
+ * @param {{ type: string, lane: string }} event
+ */
+export const hookWants = (hook, event) =>
+  hook.enabled && hook.events.includes(event.type) && (!hook.lanes.length || hook.lanes.includes(event.lane));
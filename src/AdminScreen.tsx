@@ -0,0 +1,497 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { io, Socket } from "socket.io-client";
+import { v4 as uuidv4 } from "uuid";
+import type { FacilityConfig, LaneConfig, Role, Webhook, WebhookDelivery, WebhookEvent } from "../shared/types";
+import {
+  COPY_PLACEHOLDERS,
+  DEFAULT_COPY_FORMAT,
+  INBOX_LANE,
+  validateFacilityConfig,
+} from "../shared/facilities.mjs";
+import { DEFAULT_SEPARATION_MINUTES } from "../shared/conflicts.mjs";
+import { validateWebhooks, WEBHOOK_EVENT_LABELS, WEBHOOK_EVENTS, WEBHOOK_FORMATS } from "../shared/webhooks.mjs";
+import { identify, SOCKET_URL } from "./socket";
+
+/* ===========================
+   Facility configuration editor (/admin)
+   Lanes keep the name they were loaded with (`originalKey`) so a rename can be
+   told apart from a remove + add; the server moves cards of renamed lanes along.
+=========================== */
+interface LaneRow extends LaneConfig {
+  originalKey: string | null; // null for lanes added in this session
+  fixesText: string;
+}
+
+const toRows = (cfg: FacilityConfig): LaneRow[] =>
+  cfg.lanes.map((l) => ({ ...l, originalKey: l.key, fixesText: l.fixes.join(" ") }));
+
+const parseFixes = (text: string) =>
+  Array.from(new Set(text.toUpperCase().split(/[\s,]+/).filter(Boolean)));
+
+export default function AdminScreen() {
+  const socketRef = useRef<Socket | null>(null);
+  const [loaded, setLoaded] = useState<FacilityConfig | null>(null);
+  const [homeFacility, setHomeFacility] = useState("");
+  const [drift, setDrift] = useState(3);
+  const [removeAfter, setRemoveAfter] = useState<number | undefined>(undefined);
+  const [completeAfter, setCompleteAfter] = useState<number | undefined>(undefined);
+  const [rows, setRows] = useState<LaneRow[]>([]);
+  const [result, setResult] = useState<{ ok?: boolean; errors?: string[] } | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
+
+  function load(cfg: FacilityConfig) {
+    setLoaded(cfg);
+    setHomeFacility(cfg.homeFacility);
+    setDrift(cfg.estimateDriftMinutes);
+    setRemoveAfter(cfg.removeDisconnectedMinutes);
+    setCompleteAfter(cfg.autoCompleteMinutes);
+    setRows(toRows(cfg));
+  }
+
+  useEffect(() => {
+    const socket = io(SOCKET_URL, { transports: ["websocket"] });
+    socketRef.current = socket;
+    // Only the first config is loaded; later broadcasts would overwrite unsaved edits.
+    socket.once("config:state", load);
+    // Admin rights come from the session started on a board page.
+    socket.on("session:state", ({ role }: { role: Role }) => setRole(role));
+    socket.on("connect", () => identify(socket).then((res) => res.role && setRole(res.role)));
+    return () => {
+      socket.disconnect();
+    };
+  }, []);
+
+  const draft: FacilityConfig = useMemo(
+    () => ({
+      homeFacility: homeFacility.trim(),
+      estimateDriftMinutes: drift,
+      ...(removeAfter !== undefined && { removeDisconnectedMinutes: removeAfter }),
+      ...(completeAfter !== undefined && { autoCompleteMinutes: completeAfter }),
+      lanes: rows.map(({ originalKey, fixesText, ...lane }) => ({ ...lane, fixes: parseFixes(fixesText) })),
+    }),
+    [homeFacility, drift, removeAfter, completeAfter, rows]
+  );
+  const errors = useMemo(() => validateFacilityConfig(draft), [draft]);
+
+  const removed = loaded ? loaded.lanes.filter((l) => !rows.some((r) => r.originalKey === l.key)).map((l) => l.key) : [];
+
+  function patchRow(i: number, patch: Partial<LaneRow>) {
+    setRows((rs) => rs.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+    setResult(null);
+  }
+
+  function moveRow(i: number, dir: -1 | 1) {
+    setRows((rs) => {
+      const j = i + dir;
+      if (j < 0 || j >= rs.length) return rs;
+      const next = [...rs];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+  }
+
+  function addRow() {
+    setRows((rs) => [
+      ...rs,
+      { key: "", color: "#a78bfa", fixes: [], fixesText: "", defaultAltitude: "", copyFormat: DEFAULT_COPY_FORMAT, originalKey: null },
+    ]);
+  }
+
+  function save() {
+    if (removed.length && !confirm(`Cards in ${removed.join(", ")} will move back to ${INBOX_LANE}. Continue?`)) return;
+    const renames = Object.fromEntries(
+      rows.filter((r) => r.originalKey && r.originalKey !== r.key.trim()).map((r) => [r.originalKey, r.key.trim()])
+    );
+    socketRef.current?.emit("config:update", { config: draft, renames }, (res: { ok?: boolean; errors?: string[] }) => {
+      setResult(res);
+      if (res.ok) load(draft);
+    });
+  }
+
+  if (!loaded) return <div className="dark-root"><div className="container muted">Loading configuration…</div></div>;
+  const isAdmin = role === "admin";
+
+  return (
+    <div className="dark-root">
+      <div className="top dark-top">
+        <div className="inner container">
+          <div style={{ display: "flex", gap: 10, alignItems: "baseline" }}>
+            <div className="brand">Facility configuration</div>
+            <a className="muted" href="/">
+              boards
+            </a>
+          </div>
+          <button className="copy" onClick={save} disabled={!isAdmin || errors.length > 0}>
+            Save &amp; apply to all boards
+          </button>
+        </div>
+      </div>
+
+      <div className="container">
+        {role && !isAdmin && (
+          <div className="search-card dark-panel">
+            Only admins can change the configuration. Open a board, choose "Change position" and join with an admin access
+            code, then come back to this page.
+          </div>
+        )}
+        {(errors.length > 0 || result?.errors) && (
+          <div className="search-card dark-panel" style={{ color: "var(--danger)" }}>
+            {(result?.errors || errors).map((e) => (
+              <div key={e}>{e}</div>
+            ))}
+          </div>
+        )}
+        {result?.ok && <div className="search-card dark-panel">Saved. Connected boards were updated.</div>}
+
+        <div className="board">
+          <div className="lane dark-lane">
+            <div className="grid">
+              <div>
+                <label className="label">Home facility</label>
+                <input className="input-sm" value={homeFacility} onChange={(e) => setHomeFacility(e.target.value)} />
+              </div>
+              <div>
+                <label className="label" title="Only fixes with a verified position in shared/fixes.json raise the flag">
+                  Estimate drift flag (minutes)
+                </label>
+                <input
+                  className="input-sm"
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={drift}
+                  onChange={(e) => setDrift(Math.round(Number(e.target.value)))}
+                />
+              </div>
+              <div>
+                <label className="label">Remove disconnected pilots after (minutes)</label>
+                <input
+                  className="input-sm"
+                  type="number"
+                  min={1}
+                  max={240}
+                  placeholder="Keep"
+                  value={removeAfter ?? ""}
+                  onChange={(e) => setRemoveAfter(e.target.value === "" ? undefined : Math.round(Number(e.target.value)))}
+                />
+              </div>
+              <div>
+                <label className="label">Complete cards after the estimate (minutes)</label>
+                <input
+                  className="input-sm"
+                  type="number"
+                  min={1}
+                  max={240}
+                  placeholder="By hand"
+                  value={completeAfter ?? ""}
+                  onChange={(e) => setCompleteAfter(e.target.value === "" ? undefined : Math.round(Number(e.target.value)))}
+                />
+              </div>
+            </div>
+          </div>
+
+          {rows.map((row, i) => {
+            const inbox = row.originalKey === INBOX_LANE;
+            return (
+              <div key={row.originalKey ?? `new-${i}`} className="lane dark-lane" style={{ borderLeft: `4px solid ${row.color}` }}>
+                <div className="lane-head">
+                  <div className="brand">
+                    {row.key || "New lane"}
+                    {row.originalKey && row.originalKey !== row.key && <span className="muted"> (renamed from {row.originalKey})</span>}
+                  </div>
+                  <div style={{ display: "flex", gap: 6 }}>
+                    <button className="copy" onClick={() => moveRow(i, -1)} disabled={i === 0}>
+                      ↑
+                    </button>
+                    <button className="copy" onClick={() => moveRow(i, 1)} disabled={i === rows.length - 1}>
+                      ↓
+                    </button>
+                    {!inbox && (
+                      <button className="remove" onClick={() => setRows((rs) => rs.filter((_, j) => j !== i))}>
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="grid">
+                  <div>
+                    <label className="label">Name</label>
+                    <input className="input-sm" value={row.key} disabled={inbox} onChange={(e) => patchRow(i, { key: e.target.value })} />
+                  </div>
+                  <div>
+                    <label className="label">Color</label>
+                    <input className="input-sm" type="color" value={row.color} onChange={(e) => patchRow(i, { color: e.target.value })} />
+                  </div>
+                  <div>
+                    <label className="label">Default altitude</label>
+                    <input
+                      className="input-sm"
+                      placeholder="FL350"
+                      value={row.defaultAltitude}
+                      onChange={(e) => patchRow(i, { defaultAltitude: e.target.value.toUpperCase() })}
+                    />
+                  </div>
+                  {!inbox && (
+                    <div>
+                      <label className="label">Coordinate by (min before estimate)</label>
+                      <input
+                        className="input-sm"
+                        type="number"
+                        min={1}
+                        max={180}
+                        placeholder="no deadline"
+                        value={row.coordinationDeadlineMinutes ?? ""}
+                        onChange={(e) =>
+                          patchRow(i, { coordinationDeadlineMinutes: e.target.value ? Math.round(Number(e.target.value)) : undefined })
+                        }
+                      />
+                    </div>
+                  )}
+                  {!inbox && (
+                    <div>
+                      <label className="label">Responses</label>
+                      <label className="muted" title="Accept, counter and reject are kept for controllers signed in for this facility (and admins)">
+                        <input
+                          type="checkbox"
+                          checked={!!row.facilityOnly}
+                          onChange={(e) => patchRow(i, { facilityOnly: e.target.checked || undefined })}
+                        />{" "}
+                        Only {row.key || "this facility"} controllers
+                      </label>
+                    </div>
+                  )}
+                  {!inbox && (
+                    <div>
+                      <label className="label">Separation (min)</label>
+                      <input
+                        className="input-sm"
+                        type="number"
+                        min={1}
+                        max={60}
+                        placeholder={String(DEFAULT_SEPARATION_MINUTES)}
+                        value={row.separationMinutes ?? ""}
+                        onChange={(e) =>
+                          patchRow(i, { separationMinutes: e.target.value ? Math.round(Number(e.target.value)) : undefined })
+                        }
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <label className="label">Message template</label>
+                    <input
+                      className="input-sm"
+                      title={`Placeholders: ${COPY_PLACEHOLDERS.map((p) => `{${p}}`).join(" ")}`}
+                      value={row.copyFormat}
+                      onChange={(e) => patchRow(i, { copyFormat: e.target.value })}
+                    />
+                  </div>
+                </div>
+                {!inbox && (
+                  <div style={{ marginTop: 10 }}>
+                    <label className="label">Valid fixes (space or comma separated)</label>
+                    <input className="input-sm" value={row.fixesText} onChange={(e) => patchRow(i, { fixesText: e.target.value })} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <button className="copy" onClick={addRow}>
+            Add lane
+          </button>
+
+          {isAdmin && socketRef.current && <WebhooksEditor socket={socketRef.current} laneKeys={loaded.lanes.map((l) => l.key)} />}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ===========================
+   Outbound webhooks and their delivery log
+=========================== */
+const DELIVERY_LOG_ROWS = 50;
+
+const utcTime = (ms: number) => new Date(ms).toISOString().slice(11, 19) + "Z";
+
+function WebhooksEditor({ socket, laneKeys }: { socket: Socket; laneKeys: string[] }) {
+  const [hooks, setHooks] = useState<Webhook[] | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [result, setResult] = useState<{ ok?: boolean; errors?: string[]; error?: string } | null>(null);
+
+  useEffect(() => {
+    socket.emit("webhooks:get", null, (res: { hooks: Webhook[]; deliveries: WebhookDelivery[] }) => {
+      setHooks(res.hooks);
+      setDeliveries(res.deliveries);
+    });
+    // Retries update a delivery in place.
+    const onDelivery = (d: WebhookDelivery) =>
+      setDeliveries((ds) => (ds.some((x) => x.id === d.id) ? ds.map((x) => (x.id === d.id ? d : x)) : [...ds, d]));
+    socket.on("webhooks:delivery", onDelivery);
+    return () => {
+      socket.off("webhooks:delivery", onDelivery);
+    };
+  }, [socket]);
+
+  const errors = useMemo(() => (hooks ? validateWebhooks(hooks, laneKeys) : []), [hooks, laneKeys]);
+
+  if (!hooks) return <div className="muted">Loading webhooks…</div>;
+
+  function patchHook(i: number, patch: Partial<Webhook>) {
+    setHooks((hs) => hs!.map((h, j) => (j === i ? { ...h, ...patch } : h)));
+    setDirty(true);
+    setResult(null);
+  }
+
+  const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter((v) => v !== value) : [...list, value]);
+
+  function addHook() {
+    setHooks((hs) => [
+      ...hs!,
+      { id: uuidv4(), name: "", url: "", format: "discord", events: ["card.added", "card.moved"], lanes: [], enabled: true },
+    ]);
+    setDirty(true);
+  }
+
+  function save() {
+    socket.emit("webhooks:update", { hooks }, (res: { ok?: boolean; errors?: string[] }) => {
+      setResult(res);
+      if (res.ok) setDirty(false);
+    });
+  }
+
+  function test(id: string) {
+    socket.emit("webhooks:test", { id }, (res: { error?: string }) => setResult(res.error ? { error: res.error } : null));
+  }
+
+  return (
+    <>
+      <div className="lane-head" style={{ marginTop: 24 }}>
+        <div className="brand">Webhooks</div>
+        <button className="copy" onClick={save} disabled={!dirty || errors.length > 0}>
+          Save webhooks
+        </button>
+      </div>
+      <div className="muted" style={{ marginBottom: 8 }}>
+        Post to Discord or any HTTP endpoint when cards are added, moved, changed or pass their estimate. Failed deliveries are
+        retried with backoff. For a local stand-in run <code>npm run webhook-receiver</code> and use http://localhost:4000/.
+      </div>
+      {(errors.length > 0 || result?.errors || result?.error) && (
+        <div className="search-card dark-panel" style={{ color: "var(--danger)" }}>
+          {(result?.errors || (result?.error ? [result.error] : errors)).map((e) => (
+            <div key={e}>{e}</div>
+          ))}
+        </div>
+      )}
+      {result?.ok && <div className="search-card dark-panel">Webhooks saved.</div>}
+
+      {hooks.map((hook, i) => (
+        <div key={hook.id} className="lane dark-lane">
+          <div className="grid">
+            <div>
+              <label className="label">Name</label>
+              <input className="input-sm" value={hook.name} placeholder="Piarco Discord" onChange={(e) => patchHook(i, { name: e.target.value })} />
+            </div>
+            <div style={{ gridColumn: "span 2" }}>
+              <label className="label">URL</label>
+              <input className="input-sm" value={hook.url} placeholder="https://discord.com/api/webhooks/…" onChange={(e) => patchHook(i, { url: e.target.value.trim() })} />
+            </div>
+            <div>
+              <label className="label">Payload</label>
+              <select className="input-sm" value={hook.format} onChange={(e) => patchHook(i, { format: e.target.value as Webhook["format"] })}>
+                {WEBHOOK_FORMATS.map((f) => (
+                  <option key={f} value={f}>
+                    {f === "discord" ? "Discord message" : "JSON event"}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div style={{ marginTop: 10 }}>
+            <label className="label">Events</label>
+            <div className="chip-row">
+              {WEBHOOK_EVENTS.map((ev: WebhookEvent) => (
+                <label key={ev} className="chip">
+                  <input type="checkbox" checked={hook.events.includes(ev)} onChange={() => patchHook(i, { events: toggle(hook.events, ev) })} />
+                  {WEBHOOK_EVENT_LABELS[ev]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div style={{ marginTop: 10 }}>
+            <label className="label">Lanes (none ticked: every lane)</label>
+            <div className="chip-row">
+              {laneKeys.map((lane) => (
+                <label key={lane} className="chip">
+                  <input type="checkbox" checked={hook.lanes.includes(lane)} onChange={() => patchHook(i, { lanes: toggle(hook.lanes, lane) })} />
+                  {lane}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div style={{ display: "flex", gap: 8, marginTop: 10, alignItems: "center" }}>
+            <label className="chip">
+              <input type="checkbox" checked={hook.enabled} onChange={(e) => patchHook(i, { enabled: e.target.checked })} />
+              Enabled
+            </label>
+            <button className="copy" onClick={() => test(hook.id)} disabled={dirty} title={dirty ? "Save first" : "Send a sample card"}>
+              Send test
+            </button>
+            <button
+              className="remove"
+              onClick={() => {
+                setHooks((hs) => hs!.filter((_, j) => j !== i));
+                setDirty(true);
+              }}
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+      <button className="copy" onClick={addHook}>
+        Add webhook
+      </button>
+
+      <div className="brand" style={{ marginTop: 24 }}>
+        Recent deliveries
+      </div>
+      {deliveries.length === 0 ? (
+        <div className="muted">Nothing sent since the server started.</div>
+      ) : (
+        <table className="delivery-log">
+          <thead>
+            <tr>
+              <th>Time</th>
+              <th>Webhook</th>
+              <th>Event</th>
+              <th>Board</th>
+              <th>Card</th>
+              <th>Status</th>
+              <th>Tries</th>
+              <th>Last error</th>
+            </tr>
+          </thead>
+          <tbody>
+            {deliveries
+              .slice(-DELIVERY_LOG_ROWS)
+              .reverse()
+              .map((d) => (
+                <tr key={d.id} className={`delivery-${d.status}`}>
+                  <td>{utcTime(d.at)}</td>
+                  <td>{d.hookName}</td>
+                  <td>{d.event}</td>
+                  <td>{d.board}</td>
+                  <td>{d.callsign}</td>
+                  <td>{d.status}</td>
+                  <td>{d.attempts}</td>
+                  <td>{d.lastError || ""}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      )}
+    </>
+  );
+}
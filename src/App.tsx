@@ -1,14 +1,15 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   DndContext,
   closestCenter,
+  pointerWithin,
   PointerSensor,
+  type CollisionDetection,
   useSensor,
   useSensors,
   useDroppable,
 } from "@dnd-kit/core";
 import {
-  arrayMove,
   SortableContext,
   useSortable,
   verticalListSortingStrategy,
@@ -16,226 +17,1004 @@ import {
 import { CSS } from "@dnd-kit/utilities";
 import { io, Socket } from "socket.io-client";
 import { v4 as uuidv4 } from "uuid";
+import type {
+  ArchiveQuery,
+  BoardExport,
+  BoardItem,
+  BoardItemFields,
+  BoardOp,
+  BoardFilter,
+  BoardState,
+  CompletedCard,
+  Conflict,
+  CoordAction,
+  CoordValues,
+  FacilityConfig,
+  HistoryEntry,
+  LaneConfig,
+  LaneKey,
+  LaneSort,
+  MessageType,
+  ParsedCommand,
+  ParsedMessage,
+  Role,
+  SequencedOp,
+  Session,
+  Urgency,
+  VatsimDelta,
+  VatsimPilot,
+  VatsimStatus,
+} from "../shared/types";
+import { applyOp, applySequenced, invertOp, laneOf, replayConflict, validateOp } from "../shared/ops.mjs";
+import { altitudeMismatch } from "../shared/traffic.mjs";
+import { searchArchive } from "../shared/archive.mjs";
+import { isFiltering, LANE_SORTS, matchesFilter, sortLane } from "../shared/filters.mjs";
+import { detectConflicts } from "../shared/conflicts.mjs";
+import { allowedActions, COORD_FIELDS, COORD_LABELS, coordOf } from "../shared/coordination.mjs";
+import { etaToFix, FIR, FIXES, hhmmDiff } from "../shared/geo.mjs";
+import { suggestLanes } from "../shared/routing.mjs";
+import { facilityNames, INBOX_LANE, laneChangePatch, laneFixes } from "../shared/facilities.mjs";
+import { digits, fmtFL, fmtHHMM, fmtMach, parseWaypointsFromRoute } from "../shared/format.mjs";
+import { completeCommand, laneAliases, parseCommand } from "../shared/commands.mjs";
+import { cardUrgency, formatCountdown, URGENCY_LEVELS } from "../shared/deadlines.mjs";
+import { EXPORT_FORMAT, readBoardExport } from "../shared/export.mjs";
+import { MESSAGE_TYPES, messageValues, parseMessage, structuredMessage, templateMessage } from "../shared/messages.mjs";
+import { IMPORT_COLUMNS, normalizeCard, parseImport, type ImportedCard } from "../shared/import.mjs";
+import { hasRole, opPermission } from "../shared/permissions.mjs";
+import { FIELD_FORMATS, MAX_PAYLOAD_BYTES, opPayloadError } from "../shared/schema.mjs";
+import { identify, SESSION_KEY, SOCKET_URL, type Identity, type SessionReply } from "./socket";
+import AdminScreen from "./AdminScreen";
 
 /* ===========================
-   Types
+   Config
 =========================== */
-interface VatsimPilot {
-  callsign: string;
-  altitude: number;
-  groundspeed: number;
-  heading: number | null;
-  latitude: number;
-  longitude: number;
-  planned_depairport?: string | null;
-  planned_destairport?: string | null;
-  flight_plan?: {
-    departure?: string | null;
-    arrival?: string | null;
-    altitude?: string | null;
-    route?: string | null;
-  } | null;
-}
-
-interface BoardItemFields {
-  callsign: string;
-  waypoint: string;
-  estimate: string; // HHMM
-  altitude: string; // FL###
-  mach: string;     // M##
-  squawk: string;  // transponder / squawk code
-}
-
-interface BoardItem extends BoardItemFields {
-  id: string;
-  source: "manual" | "vatsim";
-  routeWaypoints: string[];
+// Lanes, fixes, colors and copy formats come from the server (config/facilities.json, edited at /admin).
+
+// Boards are addressed as /board/<name>; anything else shows the board picker.
+function boardFromPath(pathname = location.pathname): string | null {
+  const m = pathname.match(/^\/board\/([a-z0-9][a-z0-9-]{0,63})\/?$/);
+  return m ? m[1] : null;
 }
 
-type LaneKey = "Unassigned" | "New York" | "Curacao" | "Piarco" | "Maiquetia";
+const boardUrl = (name: string) => `/board/${name}`;
 
-interface BoardState {
-  lanes: Record<LaneKey, string[]>;
-  items: Record<string, BoardItem>;
-  lastUpdated: number;
-}
+const AUTO_ASSIGN_KEY = "coord:autoAssign";
+const SOUND_KEY = "coord:soundAlerts";
+const MAP_KEY = "coord:showMap";
+const LANE_SORT_KEY = "coord:laneSort";
+const COMMAND_HISTORY_KEY = "coord:commandHistory";
 
 /* ===========================
-   Config
+   Helpers (formatting)
 =========================== */
-const DEFAULT_LANES: Record<LaneKey, string[]> = {
-  Unassigned: [],
-  "New York": [],
-  Curacao: [],
-  Piarco: [],
-  Maiquetia: [],
-};
+// Lanes (and the fix in each) that the filed route passes through, in route order.
+function routeSuggestions(item: BoardItem, config: FacilityConfig) {
+  return suggestLanes(item.routeWaypoints, laneFixes(config)) as { lane: LaneKey; fix: string; position: number }[];
+}
 
-const LANE_FIXES: Partial<Record<LaneKey, string[]>> = {
-  Curacao: ["Select","SCAPA"],
-  Maiquetia: ["Select","ARMUR", "MILOK", "KIKER"],
-  Piarco: ["Select","ANADA", "GEECE", "ILURI", "MODUX", "GABAR", "ZPATA", "ELOPO", "LAMKN"],
-  "New York": ["Select","DAWIN", "OBIKE", "SOCCO", "OPAUL", "KEEKA", "CHEDR", "HANCY", "FERNA", "KINCH"],
-};
+// The lane's configured fixes, or the filed route's waypoints for lanes without a list.
+function getFixOptions(lane: LaneConfig | undefined, item: BoardItem): string[] {
+  if (lane?.fixes.length) return lane.fixes;
+  return item.routeWaypoints || [];
+}
+
+// A new card for a connected pilot, prefilled from the flight plan.
+function pilotItem(p: VatsimPilot): BoardItem {
+  const squawk = p.flight_plan?.assigned_transponder || "";
+  return {
+    id: uuidv4(),
+    source: "vatsim",
+    callsign: p.callsign,
+    waypoint: "",
+    estimate: "",
+    altitude: fmtFL(p.flight_plan?.altitude || String(p.altitude || "")),
+    mach: "",
+    squawk: FIELD_FORMATS.squawk.complete(squawk) ? squawk : "",
+    routeWaypoints: parseWaypointsFromRoute(p.flight_plan?.route ?? ""),
+    route: p.flight_plan?.route?.trim() || undefined,
+  };
+}
+
+async function copyToClipboard(text: string) {
+  if (navigator.clipboard && navigator.clipboard.writeText) {
+    await navigator.clipboard.writeText(text);
+  } else {
+    // fallback for older browsers
+    const ta = document.createElement("textarea");
+    ta.value = text;
+    ta.style.position = "fixed";
+    ta.style.left = "-9999px";
+    document.body.appendChild(ta);
+    ta.select();
+    document.execCommand("copy");
+    document.body.removeChild(ta);
+  }
+}
 
-const isLocal = location.hostname === "localhost" || location.hostname === "127.0.0.1";
-const SOCKET_URL =
-  isLocal
-    ? (import.meta as any)?.env?.VITE_SOCKET_URL || "http://localhost:5175"
-    : window.location.origin; // <-- prod uses same origin (Railway URL)
+// Epoch ms -> "1432Z"
+function fmtUtc(ts?: number | null): string {
+  if (!ts) return "";
+  const d = new Date(ts);
+  return `${String(d.getUTCHours()).padStart(2, "0")}${String(d.getUTCMinutes()).padStart(2, "0")}Z`;
+}
 
 /* ===========================
-   Helpers (formatting)
+   UTC clock & alerts
 =========================== */
-function parseWaypointsFromRoute(route?: string | null): string[] {
-  if (!route) return [];
-  const toks = route
-    .replace(/\s+/g, " ")
-    .trim()
-    .split(" ")
-    .filter(Boolean)
-    .filter((t) => /^[A-Z0-9]{2,7}$/.test(t));
-  return Array.from(new Set(toks));
+function useUtcNow(intervalMs: number) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(t);
+  }, [intervalMs]);
+  return now;
 }
 
-function callsignMatch(a: string, b: string) {
-  return a.toLowerCase().includes(b.toLowerCase());
+function UtcClock() {
+  const now = useUtcNow(1000);
+  return <div className="clock" title="UTC">{new Date(now).toISOString().slice(11, 19)}Z</div>;
 }
 
-function getFixOptions(lane: LaneKey, item: BoardItem): string[] {
-  const fixed = LANE_FIXES[lane];
-  if (fixed && fixed.length) return fixed;
-  return item.routeWaypoints?.length ? item.routeWaypoints : ["—"];
-}
+const CONNECTION_LABELS: Record<ConnectionStatus, string> = {
+  connecting: "Connecting…",
+  syncing: "Syncing…",
+  online: "Live",
+  offline: "Offline",
+};
 
-// Keep only digits
-const digits = (s: string) => (s || "").replace(/\D+/g, "");
+function ConnectionIndicator({ status, queued }: { status: ConnectionStatus; queued: number }) {
+  const title =
+    status === "offline"
+      ? "Reconnecting. Edits are kept on this device and sent when the connection is back."
+      : status === "online"
+        ? "Connected; changes are shared as you make them"
+        : "Catching up with the board";
+  return (
+    <div className={`connection connection-${status}`} title={title}>
+      <span className="dot" />
+      {CONNECTION_LABELS[status]}
+      {queued > 0 && ` · ${queued} queued`}
+    </div>
+  );
+}
 
-// HHMM (4 digits)
-function fmtHHMM(input: string): string {
-  return digits(input).slice(0, 4);
+// Queued edits held back on reconnect because someone else changed the same card meanwhile.
+function ConflictList({
+  conflicts,
+  onResolve,
+}: {
+  conflicts: ReplayConflict[];
+  onResolve: (opId: string, apply: boolean) => void;
+}) {
+  if (!conflicts.length) return null;
+  return (
+    <div className="search-card dark-panel replay-conflicts" style={{ marginBottom: 12 }}>
+      <div className="muted" style={{ marginBottom: 6 }}>
+        Changed by someone else while you were offline — your edit was not applied
+      </div>
+      {conflicts.map((c) => (
+        <div key={c.opId} className="replay-conflict">
+          <span>{c.message}</span>
+          {c.canApply && (
+            <button className="copy" onClick={() => onResolve(c.opId, true)}>
+              Apply mine
+            </button>
+          )}
+          <button className="copy" onClick={() => onResolve(c.opId, false)}>
+            {c.canApply ? "Keep theirs" : "Dismiss"}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
 }
 
-// FL + up to 3 digits (FL350)
-function fmtFL(input: string): string {
-  const d = digits(input).slice(0, 3);
-  return d ? `FL${d}` : "";
+// Short two-tone chime; needs an AudioContext created from a user gesture (the toggle).
+let audio: AudioContext | null = null;
+
+function unlockAudio() {
+  audio ??= new AudioContext();
+  if (audio.state === "suspended") audio.resume();
 }
 
-// M + up to 2 digits (M82)
-function fmtMach(input: string): string {
-  const d = digits(input).slice(0, 2);
-  return d ? `M${d}` : "";
+function chime() {
+  if (!audio) return;
+  [880, 660].forEach((freq, i) => {
+    const osc = audio!.createOscillator();
+    const gain = audio!.createGain();
+    const t = audio!.currentTime + i * 0.18;
+    osc.frequency.value = freq;
+    gain.gain.setValueAtTime(0.15, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.16);
+    osc.connect(gain).connect(audio!.destination);
+    osc.start(t);
+    osc.stop(t + 0.17);
+  });
 }
 
 /* ===========================
-   VATSIM data hook (15s)
+   VATSIM traffic (pushed by the server's feed proxy)
+   The server polls the feed once for everybody. A board only receives updates
+   for the pilots it has cards for; adding new traffic goes through search.
 =========================== */
-function useVatsimPilots() {
-  const [pilots, setPilots] = useState<VatsimPilot[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [err, setErr] = useState<string | null>(null);
+function useVatsimTraffic(socket: Socket | null) {
+  const [traffic, setTraffic] = useState<Record<string, VatsimPilot>>({});
+  const [status, setStatus] = useState<VatsimStatus | null>(null);
 
-  async function fetchPilots() {
-    try {
-      setLoading(true);
-      setErr(null);
-      const res = await fetch("https://data.vatsim.net/v3/vatsim-data.json", {
-        cache: "no-store",
+  useEffect(() => {
+    if (!socket) return;
+    const onStatus = (s: VatsimStatus) => setStatus(s);
+    const onDelta = (d: VatsimDelta) =>
+      setTraffic((prev) => {
+        const next = { ...prev };
+        for (const p of [...d.connected, ...d.updated]) next[p.callsign.toUpperCase()] = p;
+        for (const c of d.disconnected) delete next[c.toUpperCase()];
+        return next;
       });
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      const data = await res.json();
-      console.log(data);
-      
-      const list: VatsimPilot[] = (data?.pilots || []).map((p: any) => ({
-        callsign: p.callsign,
-        altitude: p.altitude ?? 0,
-        groundspeed: p.groundspeed ?? 0,
-        heading: p.heading ?? null,
-        latitude: p.latitude,
-        longitude: p.longitude,
-        planned_depairport: p.planned_depairport ?? p.flight_plan?.departure ?? null,
-        planned_destairport: p.planned_destairport ?? p.flight_plan?.arrival ?? null,
-        flight_plan: p.flight_plan ?? null,
-      }));
-      setPilots(list);
-    } catch (e: any) {
-      setErr(e?.message || "Failed to load VATSIM data");
-    } finally {
-      setLoading(false);
+    socket.on("vatsim:status", onStatus);
+    socket.on("vatsim:delta", onDelta);
+    return () => {
+      socket.off("vatsim:status", onStatus);
+      socket.off("vatsim:delta", onDelta);
+    };
+  }, [socket]);
+
+  return { traffic, status };
+}
+
+// Callsign search against the server's cached feed (debounced).
+function useVatsimSearch(socket: Socket | null, query: string) {
+  const [results, setResults] = useState<VatsimPilot[]>([]);
+  const latest = useRef(0);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!socket || !q) {
+      setResults([]);
+      return;
     }
+    const ticket = ++latest.current;
+    const t = setTimeout(() => {
+      socket.emit("vatsim:search", { q, limit: 50 }, (list: VatsimPilot[]) => {
+        if (ticket === latest.current) setResults(Array.isArray(list) ? list : []);
+      });
+    }, 200);
+    return () => clearTimeout(t);
+  }, [socket, query]);
+
+  return results;
+}
+
+/* ===========================
+   Controller identity & presence
+=========================== */
+interface PresenceEntry {
+  sid: string;
+  cid: string | null;
+  callsign: string | null;
+  facility: string | null;
+  role: Role;
+  editing: { itemId: string; field: string } | null;
+}
+
+const IDENTITY_KEY = "coord:identity";
+
+function loadIdentity(): Identity | null {
+  try {
+    return JSON.parse(localStorage.getItem(IDENTITY_KEY) || "null");
+  } catch {
+    return null;
   }
+}
 
-  useEffect(() => {
-    fetchPilots();
-    const id = setInterval(fetchPilots, 15_000); // 15 seconds
-    return () => clearInterval(id);
-  }, []);
+type IdentityFormProps = {
+  initial: Identity | null;
+  facilities: string[]; // home facility first
+  error: string | null;
+  open: boolean; // no access codes on this server: everyone may edit
+  onSubmit: (identity: Identity & { code?: string }) => void;
+  onCancel?: () => void;
+};
+
+function IdentityForm({ initial, facilities, error, open, onSubmit, onCancel }: IdentityFormProps) {
+  const [cid, setCid] = useState(initial?.cid || "");
+  const [callsign, setCallsign] = useState(initial?.callsign || "");
+  const [facility, setFacility] = useState(initial?.facility || facilities[0]);
+  const [code, setCode] = useState("");
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    onSubmit({ cid: digits(cid), callsign: callsign.trim().toUpperCase(), facility, code: code.trim() || undefined });
+  }
+
+  return (
+    <form className="search-card dark-panel" style={{ marginBottom: 12 }} onSubmit={submit}>
+      <div style={{ marginBottom: 6 }} className="muted">
+        Identify your position so others can see who is connected and who changed what
+      </div>
+      <div className="grid">
+        <div>
+          <label className="label">VATSIM CID</label>
+          <input className="input-sm" placeholder="1234567" value={cid} onChange={(e) => setCid(digits(e.target.value).slice(0, 8))} />
+        </div>
+        <div>
+          <label className="label">Position callsign</label>
+          <input className="input-sm" placeholder="TJZS_CTR" value={callsign} onChange={(e) => setCallsign(e.target.value.toUpperCase())} />
+        </div>
+        <div>
+          <label className="label">Facility</label>
+          <select value={facility} onChange={(e) => setFacility(e.target.value)}>
+            {facilities.map((f) => (
+              <option key={f} value={f}>
+                {f}
+              </option>
+            ))}
+          </select>
+        </div>
+        {!open && (
+          <div>
+            <label className="label">Access code</label>
+            <input
+              className="input-sm"
+              type="password"
+              placeholder="empty: watch only"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+          </div>
+        )}
+        <div style={{ display: "flex", gap: 8, alignItems: "end" }}>
+          <button className="copy" type="submit" disabled={!cid || !callsign}>
+            Join
+          </button>
+          {onCancel && (
+            <button className="remove" type="button" onClick={onCancel}>
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+      {error && <div className="muted" style={{ color: "var(--danger)", marginTop: 8 }}>{error}</div>}
+    </form>
+  );
+}
+
+type PresenceBarProps = {
+  presence: PresenceEntry[];
+  selfId: string | null;
+  showRoles: boolean;
+  onEdit: () => void;
+};
 
-  return { pilots, loading, err };
+function PresenceBar({ presence, selfId, showRoles, onEdit }: PresenceBarProps) {
+  return (
+    <div className="presence">
+      <span className="muted">Connected:</span>
+      {presence.map((p) => (
+        <span key={p.sid} className={`pill dark-pill presence-pill${p.sid === selfId ? " self" : ""}`} title={p.cid ? `CID ${p.cid}` : "Not identified"}>
+          <span className="dot" />
+          {p.callsign || "Guest"}
+          {p.facility && <span className="muted"> · {p.facility}</span>}
+          {showRoles && p.role !== "controller" && <span className="muted"> · {p.role}</span>}
+        </span>
+      ))}
+      <button className="copy" onClick={onEdit}>
+        Change position
+      </button>
+    </div>
+  );
 }
 
 /* ===========================
-   Realtime sync (Socket.IO)
+   Realtime sync (Socket.IO, server-sequenced ops)
+   `confirmed` is the last state acknowledged by the server; pending local ops
+   are replayed on top of it so edits show immediately and converge once the
+   server has ordered them.
 =========================== */
-function useRealtimeSync(
-  state: BoardState,
-  setState: (updater: (s: BoardState) => BoardState) => void
-) {
+interface PendingOp {
+  opId: string;
+  op: BoardOp;
+  // The card as the server had confirmed it when the op was queued, to spot changes made meanwhile.
+  base?: { item?: BoardItem; lane?: LaneKey };
+}
+
+// A queued op that was held back on reconnect because someone else changed the card meanwhile.
+interface ReplayConflict extends PendingOp {
+  message: string;
+  canApply: boolean; // false once the card is gone
+}
+
+type ConnectionStatus = "connecting" | "syncing" | "online" | "offline";
+
+// Ops not yet acknowledged survive a reload, per board, until the server has them.
+const queueKey = (board: string) => `coord:queue:${board}`;
+
+function loadQueue(board: string): PendingOp[] {
+  try {
+    return JSON.parse(localStorage.getItem(queueKey(board)) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+function loadLaneSorts(): Record<LaneKey, LaneSort> {
+  try {
+    return JSON.parse(localStorage.getItem(LANE_SORT_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+const emptyBoard = (): BoardState => ({
+  lanes: {},
+  items: {},
+  lastUpdated: 0,
+  version: 0,
+});
+
+function useBoardSync(boardName: string) {
   const socketRef = useRef<Socket | null>(null);
+  const [socket, setSocket] = useState<Socket | null>(null); // for other hooks that listen on the same connection
+  // Who the server thinks we are; `open` means it has no access codes and everyone is an admin.
+  const [session, setSession] = useState<{ identity: Identity | null; role: Role; open: boolean }>({
+    identity: null,
+    role: "observer",
+    open: false,
+  });
+  const [presence, setPresence] = useState<PresenceEntry[]>([]);
+  const [identityError, setIdentityError] = useState<string | null>(null);
+  const confirmedRef = useRef<BoardState>(emptyBoard());
+  const [confirmed, setConfirmed] = useState<BoardState>(confirmedRef.current);
+  const [pending, setPending] = useState<PendingOp[]>(() => loadQueue(boardName));
+  const pendingRef = useRef<PendingOp[]>(pending);
+  const [connection, setConnection] = useState<ConnectionStatus>("connecting");
+  const connectionRef = useRef(connection);
+  const [conflicts, setConflicts] = useState<ReplayConflict[]>([]);
+  const [boardError, setBoardError] = useState<string | null>(null);
+  const [opError, setOpError] = useState<string | null>(null);
+  const [config, setConfig] = useState<FacilityConfig | null>(null);
+
+  function commitConfirmed(next: BoardState) {
+    confirmedRef.current = next;
+    setConfirmed(next);
+  }
+  function commitPending(next: PendingOp[]) {
+    pendingRef.current = next;
+    setPending(next);
+    if (next.length) localStorage.setItem(queueKey(boardName), JSON.stringify(next));
+    else localStorage.removeItem(queueKey(boardName));
+  }
+  function commitConnection(next: ConnectionStatus) {
+    connectionRef.current = next;
+    setConnection(next);
+  }
+  const dropPending = (opId: string) => commitPending(pendingRef.current.filter((p) => p.opId !== opId));
+
+  function applySession(res: SessionReply) {
+    setIdentityError(res.error || null);
+    if (res.identity && res.role) setSession((s) => ({ ...s, identity: res.identity!, role: res.role! }));
+  }
 
   useEffect(() => {
     const socket = io(SOCKET_URL, { transports: ["websocket"] });
     socketRef.current = socket;
+    setSocket(socket);
+
+    // Apply server ops strictly in sequence; a gap means we missed something, so ask to catch up.
+    function applyInOrder(entries: SequencedOp[]) {
+      let next = confirmedRef.current;
+      for (const e of entries) {
+        if (e.seq <= next.version) continue;
+        if (e.seq !== next.version + 1) {
+          socket.emit("board:sync", { since: next.version });
+          break;
+        }
+        next = applySequenced(next, e);
+      }
+      commitConfirmed(next);
+      const seen = new Set(entries.map((e) => e.opId));
+      commitPending(pendingRef.current.filter((p) => !seen.has(p.opId)));
+    }
+
+    // After (re)joining, send the queue against the board as the server has it now. Ops that
+    // would overwrite someone else's change are held back for the user to decide; the rest are
+    // resubmitted, and the server ignores any it already applied.
+    function replayQueue() {
+      const now = confirmedRef.current;
+      const held: ReplayConflict[] = [];
+      const send: PendingOp[] = [];
+      for (const p of pendingRef.current) {
+        const message = replayConflict(now, p.op, p.base);
+        if (message) held.push({ ...p, message, canApply: "id" in p.op && !!now.items[p.op.id] });
+        else if ((p.op.type !== "item:delete" && p.op.type !== "item:complete") || now.items[p.op.id]) send.push(p);
+      }
+      commitPending(send);
+      if (held.length) setConflicts((c) => [...c, ...held]);
+      send.forEach(({ opId, op }) => socket.emit("op:submit", { opId, op }));
+    }
+    let replayOnState = false;
 
     socket.on("connect", () => {
-      socket.emit("board:pull");
+      // Resume the signed session; a position saved before sessions existed is sent again without a code.
+      identify(socket, localStorage.getItem(SESSION_KEY) ? undefined : loadIdentity() || undefined).then(applySession);
+      replayOnState = true;
+      commitConnection("syncing");
+      socket.emit("board:join", boardName);
+    });
+    socket.on("disconnect", () => commitConnection("offline"));
+    socket.on("connect_error", () => commitConnection("offline"));
+
+    socket.on("board:error", ({ message }: { message: string }) => {
+      setBoardError(message);
     });
 
     socket.on("board:state", (incoming: BoardState) => {
-      setState(() => incoming);
+      commitConfirmed({ ...incoming, version: incoming.version ?? 0 });
+      if (replayOnState) {
+        replayOnState = false;
+        replayQueue();
+        commitConnection("online");
+      }
     });
 
-    socket.on("item:patch:apply", ({ id, patch, mtime }: any) => {
-      setState((prev) => ({
-        ...prev,
-        items: { ...prev.items, [id]: { ...prev.items[id], ...patch } },
-        lastUpdated: mtime || Date.now(),
-      }));
+    socket.on("presence:state", (list: PresenceEntry[]) => setPresence(list));
+    // The role of a fresh connection, until identify answers.
+    socket.on("session:state", ({ role, open }: { role: Role; open: boolean }) =>
+      setSession((s) => ({ ...s, open, role: s.identity ? s.role : role }))
+    );
+    socket.on("config:state", (cfg: FacilityConfig) => setConfig(cfg));
+
+    socket.on("op:apply", (entry: SequencedOp) => applyInOrder([entry]));
+    socket.on("op:batch", (entries: SequencedOp[]) => applyInOrder(entries));
+    socket.on("op:ack", ({ opId }: { opId: string }) => dropPending(opId));
+    socket.on("op:reject", ({ opId, message }: { opId: string; message: string }) => {
+      dropPending(opId);
+      setOpError(message);
     });
+    // Any other event the server refused before acting on it.
+    socket.on("request:error", ({ message }: { event: string; message: string }) => setOpError(message));
 
-    socket.on("lanes:move:apply", ({ id, from, to, index, mtime }: any) => {
-      setState((prev) => {
-        const fromArr = prev.lanes[from].filter((x) => x !== id);
-        const toArr = [...prev.lanes[to]];
-        if (typeof index === "number") toArr.splice(index, 0, id);
-        else toArr.unshift(id);
-        return {
-          ...prev,
-          lanes: { ...prev.lanes, [from]: fromArr, [to]: toArr },
-          lastUpdated: mtime || Date.now(),
-        };
-      });
+    return () => {
+      socket.disconnect();
+    };
+  }, [boardName]);
+
+  // Change position (and role) without reconnecting; resolves true once the server accepts it.
+  async function identifyAs(raw: Identity & { code?: string }) {
+    const socket = socketRef.current;
+    if (!socket?.connected) {
+      setIdentityError("Not connected");
+      return false;
+    }
+    const res = await identify(socket, raw);
+    applySession(res);
+    return !res.error;
+  }
+
+  const permissions: Session = useMemo(
+    () => ({ role: session.role, facility: session.identity?.facility ?? null }),
+    [session]
+  );
+
+  // What the UI renders: confirmed state plus our own not-yet-sequenced ops.
+  const state = useMemo(
+    () => pending.reduce((s, p) => (validateOp(s, p.op) ? s : applyOp(s, p.op)), confirmed),
+    [confirmed, pending]
+  );
+
+  // Returns false when the op is refused locally (it is never sent).
+  function dispatch(op: BoardOp) {
+    // Checked here as well as on the server, so a change we may not make never flickers onto the board.
+    const denied = opPayloadError(op) || (config && opPermission(permissions, state, op, config));
+    if (denied) {
+      setOpError(denied);
+      return false;
+    }
+    const base = confirmedRef.current;
+    const p: PendingOp = {
+      opId: uuidv4(),
+      op,
+      base: "id" in op ? { item: base.items[op.id], lane: laneOf(base, op.id) } : undefined,
+    };
+    commitPending([...pendingRef.current, p]);
+    setOpError(null);
+    // While offline (or catching up) the op waits in the queue; it is replayed once the board is back.
+    if (connectionRef.current === "online") socketRef.current?.emit("op:submit", { opId: p.opId, op });
+    return true;
+  }
+
+  // Settle a held-back op: `apply` submits it again over the other change, otherwise it is dropped.
+  function resolveConflict(opId: string, apply: boolean) {
+    const conflict = conflicts.find((c) => c.opId === opId);
+    setConflicts((list) => list.filter((c) => c.opId !== opId));
+    if (apply && conflict) dispatch(conflict.op);
+  }
+
+  function sendReset() {
+    socketRef.current?.emit("board:reset", null, (res: { error?: string }) => res?.error && setOpError(res.error));
+  }
+
+  // Replace the whole board with a JSON export; resolves with the server's error, if any.
+  const restoreBoard = (data: unknown) =>
+    new Promise<string | null>((resolve) => {
+      const socket = socketRef.current;
+      if (!socket?.connected) return resolve("Not connected");
+      if (JSON.stringify(data).length > MAX_PAYLOAD_BYTES) return resolve("Export is too large to restore");
+      socket.emit("board:restore", data, (res: { error?: string }) => resolve(res?.error || null));
+    });
+
+  // A one-minute token for the export and report links (the session itself stays out of URLs).
+  const downloadToken = () =>
+    new Promise<{ token?: string; error?: string }>((resolve) => {
+      const socket = socketRef.current;
+      if (!socket?.connected) return resolve({ error: "Not connected" });
+      socket.emit("board:download", null, (res: { token?: string; error?: string }) => resolve(res || {}));
+    });
+
+  const loadHistory = useCallback(
+    (id: string) =>
+      new Promise<HistoryEntry[]>((resolve) => {
+        const socket = socketRef.current;
+        if (!socket?.connected) return resolve([]);
+        socket.emit("item:history", { id }, (list: HistoryEntry[]) => resolve(Array.isArray(list) ? list : []));
+      }),
+    []
+  );
+
+  function focusField(itemId: string, field: string | null) {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    if (field) socket.emit("field:focus", { itemId, field });
+    else socket.emit("field:blur");
+  }
+
+  return {
+    socket,
+    config,
+    state,
+    dispatch,
+    sendReset,
+    restoreBoard,
+    downloadToken,
+    loadHistory,
+    boardError,
+    opError,
+    connection,
+    queued: pending.length,
+    replayConflicts: conflicts,
+    resolveConflict,
+    presence,
+    selfId: socketRef.current?.id ?? null,
+    identity: session.identity,
+    permissions,
+    openAccess: session.open,
+    identifyAs,
+    identityError,
+    focusField,
+  };
+}
+
+/* ===========================
+   Card history (timeline)
+=========================== */
+const FIELD_LABELS: Record<string, string> = {
+  waypoint: "Fix",
+  estimate: "Estimate",
+  altitude: "Altitude",
+  mach: "Mach",
+  squawk: "Squawk",
+};
+
+function describeHistory(e: HistoryEntry): string {
+  switch (e.type) {
+    case "add":
+      return e.restored ? `Restored to ${e.to}` : `Added to ${e.to}`;
+    case "patch":
+      return Object.entries(e.changes || {})
+        .map(([k, [from, to]]) => `${FIELD_LABELS[k] || k} ${from || "—"} → ${to || "—"}`)
+        .join(", ") || "No change";
+    case "move":
+      return `Moved ${e.from} → ${e.to}`;
+    case "reorder":
+      return `Reordered in ${e.from}`;
+    case "delete":
+      return `Removed from ${e.from}`;
+    case "complete":
+      return `Completed in ${e.from}`;
+    case "reactivate":
+      return e.from === e.to ? `Reactivated in ${e.to}` : `Reactivated into ${e.to} (completed in ${e.from})`;
+    case "coord":
+      return `Coordination: ${e.action}${e.counter ? ` (${Object.values(e.counter).join(" ")})` : ""}`;
+    case "link": {
+      const filled = Object.keys(e.changes || {}).map((k) => (k === "routeWaypoints" ? "route" : FIELD_LABELS[k] || k));
+      return `Linked to VATSIM pilot (CID ${e.cid})${filled.length ? `, filled ${filled.join(", ").toLowerCase()}` : ""}`;
+    }
+    case "sync": {
+      if (e.lastSeen) return `Pilot left the VATSIM feed (last seen ${fmtUtc(e.lastSeen)})`;
+      const changes = Object.entries(e.changes || {})
+        .filter(([k]) => k !== "routeWaypoints")
+        .map(([k, [from, to]]) => (k === "route" ? "route amended" : `${FIELD_LABELS[k] || k} ${from || "—"} → ${to || "—"}`));
+      return changes.length ? `From the flight plan: ${changes.join(", ").toLowerCase()}` : "Pilot back in the VATSIM feed";
+    }
+    default:
+      return e.type;
+  }
+}
+
+type CardHistoryProps = {
+  id: string;
+  item: BoardItem;
+  loadHistory: (id: string) => Promise<HistoryEntry[]>;
+};
+
+function CardHistory({ id, item, loadHistory }: CardHistoryProps) {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+
+  // Refresh whenever the card changes while the timeline is open.
+  useEffect(() => {
+    let cancelled = false;
+    loadHistory(id).then((list) => !cancelled && setEntries(list));
+    return () => {
+      cancelled = true;
+    };
+  }, [id, item, loadHistory]);
+
+  if (!entries) return <div className="muted history">Loading history…</div>;
+  if (!entries.length) return <div className="muted history">No history recorded</div>;
+
+  return (
+    <ol className="history">
+      {[...entries].reverse().map((e) => (
+        <li key={e.seq}>
+          <span className="history-time">{new Date(e.at).toISOString().slice(11, 19)}Z</span>
+          <span className="history-actor">{e.actor}</span>
+          <span>{describeHistory(e)}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/* ===========================
+   Undo / redo (this user's own actions)
+   Each entry stores the op that reverses it, computed against the state the
+   action applied to. Undo and redo go through the same op path as any edit.
+=========================== */
+interface UndoEntry {
+  undo: BoardOp;
+  redo: BoardOp;
+  at: number;
+}
+
+const UNDO_LIMIT = 50;
+const TYPING_MERGE_MS = 1500; // keystrokes into the same field collapse into one undo step
+
+function useUndoRedo(state: BoardState, dispatch: (op: BoardOp) => boolean) {
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+
+  function perform(op: BoardOp) {
+    const undo = invertOp(stateRef.current, op);
+    if (!dispatch(op) || !undo) return;
+    const now = Date.now();
+    setUndoStack((stack) => {
+      const last = stack[stack.length - 1];
+      const sameField =
+        last &&
+        op.type === "item:patch" &&
+        last.redo.type === "item:patch" &&
+        last.redo.id === op.id &&
+        Object.keys(last.redo.patch).join() === Object.keys(op.patch).join() &&
+        now - last.at < TYPING_MERGE_MS;
+      if (sameField) return [...stack.slice(0, -1), { undo: last.undo, redo: op, at: now }];
+      return [...stack, { undo, redo: op, at: now }].slice(-UNDO_LIMIT);
     });
+    setRedoStack([]);
+  }
+
+  // A refused undo/redo (card gone, permission…) leaves both stacks as they were.
+  function undo() {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    const redo = invertOp(stateRef.current, entry.undo) || entry.redo;
+    if (!dispatch(entry.undo)) return;
+    setUndoStack((s) => s.slice(0, -1));
+    setRedoStack((s) => [...s, { undo: entry.undo, redo, at: Date.now() }]);
+  }
 
-    return () => socket.disconnect();
-  }, [setState]);
+  function redo() {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    const undo = invertOp(stateRef.current, entry.redo) || entry.undo;
+    if (!dispatch(entry.redo)) return;
+    setRedoStack((s) => s.slice(0, -1));
+    setUndoStack((s) => [...s, { undo, redo: entry.redo, at: Date.now() }]);
+  }
 
-  // broadcast whole state (coarse sync) whenever it changes
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), except while typing in a field.
   useEffect(() => {
-    if (!socketRef.current) return;
-    socketRef.current.emit("board:update", state);
-  }, [state]);
+    function onKey(e: KeyboardEvent) {
+      const t = e.target as HTMLElement | null;
+      if (t && (t.tagName === "INPUT" || t.tagName === "SELECT" || t.tagName === "TEXTAREA")) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const k = e.key.toLowerCase();
+      if (k === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((k === "z" && e.shiftKey) || k === "y") {
+        e.preventDefault();
+        redo();
+      }
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  return { perform, undo, redo, canUndo: undoStack.length > 0, canRedo: redoStack.length > 0 };
+}
+
+/* ===========================
+   Route-based lane suggestion (Unassigned cards)
+=========================== */
+type RouteSuggestionProps = {
+  item: BoardItem;
+  config: FacilityConfig;
+  onAssign: (lane: LaneKey, fix: string) => void;
+};
+
+function RouteSuggestion({ item, config, onAssign }: RouteSuggestionProps) {
+  const matches = useMemo(() => routeSuggestions(item, config), [item.routeWaypoints, config]);
+  if (!matches.length) return null;
+
+  return (
+    <div className="route-suggest">
+      <span className="muted">{matches.length > 1 ? "Route crosses:" : "Suggested:"}</span>
+      {matches.map((m) => (
+        <button key={m.lane} className="pill dark-pill" onClick={() => onAssign(m.lane, m.fix)} title={`Move to ${m.lane} via ${m.fix}`}>
+          {m.lane} · {m.fix}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/* ===========================
+   Coordination bar (status badge + actions)
+=========================== */
+type CoordinationBarProps = {
+  laneKey: LaneKey;
+  item: BoardItem;
+  fixOptions: string[];
+  onCoord: (action: CoordAction, counter?: CoordValues) => void;
+  canCoord: (action: CoordAction) => boolean; // our role and facility allow it in this lane
+};
+
+function CoordinationBar({ laneKey, item, fixOptions, onCoord, canCoord }: CoordinationBarProps) {
+  const coord = coordOf(item);
+  const actions = laneKey === INBOX_LANE ? [] : allowedActions(item).filter(canCoord);
+  const [counter, setCounter] = useState<CoordValues | null>(null);
 
-  // helpers to send fine-grained patches
-  function sendItemPatch(id: string, patch: Partial<BoardItemFields>) {
-    socketRef.current?.emit("item:patch", { id, patch, mtime: Date.now() });
+  if (laneKey === INBOX_LANE && coord.status === "draft") return null;
+
+  function startCounter() {
+    setCounter({ waypoint: item.waypoint, estimate: item.estimate, altitude: item.altitude, mach: item.mach });
   }
-  function sendMove(id: string, from: LaneKey, to: LaneKey, index?: number) {
-    socketRef.current?.emit("lanes:move", { id, from, to, index, mtime: Date.now() });
+
+  function sendCounter() {
+    if (!counter) return;
+    // Only send the values that actually differ from the proposal.
+    const changed = Object.fromEntries(
+      Object.entries(counter).filter(([k, v]) => v !== item[k as keyof CoordValues])
+    ) as CoordValues;
+    onCoord("counter", changed);
+    setCounter(null);
   }
 
-  return { sendItemPatch, sendMove };
+  return (
+    <div className="coord">
+      <div className="coord-row">
+        <span className={`badge badge-${coord.status}`}>
+          {COORD_LABELS[coord.status]}
+          {coord.amendment > 0 && ` · AMD ${coord.amendment}`}
+        </span>
+        {coord.status === "accepted" && (
+          <span className="muted">
+            by {coord.acceptedBy || "?"} {fmtUtc(coord.acceptedAt)}
+          </span>
+        )}
+        {(coord.status === "proposed" || coord.status === "rejected") && coord.by && (
+          <span className="muted">
+            {coord.by} {fmtUtc(coord.at)}
+          </span>
+        )}
+        {coord.status === "counter" && coord.counter && (
+          <span className="muted">
+            {coord.by || laneKey} counters:{" "}
+            {COORD_FIELDS.filter((k) => coord.counter?.[k as keyof CoordValues])
+              .map((k) => coord.counter![k as keyof CoordValues])
+              .join(" ")}
+          </span>
+        )}
+
+        <div className="coord-actions">
+          {actions.includes("propose") && (
+            <button className="copy" onClick={() => onCoord("propose")}>
+              {coord.status === "counter" ? "Re-propose" : "Propose"}
+            </button>
+          )}
+          {actions.includes("accept") && (
+            <button className="accept" onClick={() => onCoord("accept")}>
+              {coord.status === "counter" ? "Accept counter" : "Accept"}
+            </button>
+          )}
+          {actions.includes("counter") && !counter && (
+            <button className="copy" onClick={startCounter}>
+              Counter
+            </button>
+          )}
+          {actions.includes("reject") && (
+            <button className="remove" onClick={() => onCoord("reject")}>
+              Reject
+            </button>
+          )}
+        </div>
+      </div>
+
+      {counter && (
+        <div className="grid">
+          <div>
+            <label className="label">Fix</label>
+            <select
+              className="input-sm"
+              value={counter.waypoint || ""}
+              onChange={(e) => setCounter({ ...counter, waypoint: e.target.value })}
+            >
+              <option value="">Select</option>
+              {fixOptions.map((w) => (
+                <option key={w} value={w}>
+                  {w}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Estimate (HHMM)</label>
+            <input
+              className="input-sm"
+              value={counter.estimate || ""}
+              onChange={(e) => setCounter({ ...counter, estimate: fmtHHMM(e.target.value) })}
+            />
+          </div>
+          <div>
+            <label className="label">Altitude</label>
+            <input
+              className="input-sm"
+              value={counter.altitude || ""}
+              onChange={(e) => setCounter({ ...counter, altitude: fmtFL(e.target.value) })}
+            />
+          </div>
+          <div>
+            <label className="label">Mach</label>
+            <input
+              className="input-sm"
+              value={counter.mach || ""}
+              onChange={(e) => setCounter({ ...counter, mach: fmtMach(e.target.value) })}
+            />
+          </div>
+          <div style={{ display: "flex", gap: 8 }}>
+            <button className="copy" onClick={sendCounter}>
+              Send counter
+            </button>
+            <button className="remove" onClick={() => setCounter(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
 }
 
 /* ===========================
@@ -244,15 +1023,56 @@ function useRealtimeSync(
 type SortableCardProps = {
   id: string;
   laneKey: LaneKey;
+  lane: LaneConfig | undefined; // undefined only while a removed lane is being migrated away
+  config: FacilityConfig;
   item: BoardItem;
-  onChange: (patch: Partial<BoardItemFields>) => void;
+  onChange: (patch: Partial<BoardItemFields>, track?: boolean) => void;
   onDelete: () => void;
+  onComplete: () => void;
+  onCoord: (action: CoordAction, counter?: CoordValues) => void;
+  loadHistory: (id: string) => Promise<HistoryEntry[]>;
+  editors: Partial<Record<keyof BoardItemFields, string>>; // field -> who else is editing it
+  onFocusField: (field: keyof BoardItemFields | null) => void;
+  pilot?: VatsimPilot; // live position, when the callsign is connected
+  conflicts?: Conflict[];
+  urgency: Urgency;
+  onAssign: (lane: LaneKey, fix: string) => void;
+  permitted: (op: BoardOp) => boolean;
+  focused: boolean; // picked on the map: scrolled into view and highlighted
+  selected: boolean; // ticked for a bulk action
+  onSelect: (on: boolean) => void;
   [key: string]: any; // allow extra props like `key` from JSX
 };
 
-function SortableCard({ id, laneKey, item, onChange, onDelete }: SortableCardProps) {
+function SortableCard({
+  id,
+  laneKey,
+  lane,
+  config,
+  item,
+  onChange,
+  onDelete,
+  onComplete,
+  onCoord,
+  loadHistory,
+  editors,
+  onFocusField,
+  pilot,
+  conflicts,
+  urgency,
+  onAssign,
+  permitted,
+  focused,
+  selected,
+  onSelect,
+}: SortableCardProps) {
+  const editable = permitted({ type: "item:patch", id, patch: {} });
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } =
-    useSortable({ id });
+    useSortable({ id, disabled: !permitted({ type: "item:reorder", id, index: 0 }) });
+  const cardRef = useRef<HTMLDivElement | null>(null);
+  useEffect(() => {
+    if (focused) cardRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [focused]);
 
   const style: React.CSSProperties = {
     transform: CSS.Transform.toString(transform),
@@ -260,70 +1080,125 @@ function SortableCard({ id, laneKey, item, onChange, onDelete }: SortableCardPro
     opacity: isDragging ? 0.85 : 1,
   };
 
-  const [copied, setCopied] = useState(false);
+  const [copied, setCopied] = useState<MessageType | "TEXT" | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showMessages, setShowMessages] = useState(false);
 
-  async function handleCopy() {
-    const fix = item.waypoint || "—";
-    const estimate = item.estimate || "—";
-    const altitude = item.altitude || "—";
-    const squawk = item.squawk || "—";
-    const text = `${item.callsign} ${fix} ${estimate} ${altitude} ${squawk}`;
+  // Aerodromes are only known for connected pilots; messages use ZZZZ otherwise.
+  const values = messageValues(item, laneKey, { adep: pilot?.planned_depairport, ades: pilot?.planned_destairport });
 
+  async function handleCopy(type: MessageType | "TEXT" = "TEXT") {
+    const text = type === "TEXT" ? templateMessage(lane?.copyFormat, values) : structuredMessage(type, values);
     try {
-      if (navigator.clipboard && navigator.clipboard.writeText) {
-        await navigator.clipboard.writeText(text);
-      } else {
-        // fallback for older browsers
-        const ta = document.createElement("textarea");
-        ta.value = text;
-        ta.style.position = "fixed";
-        ta.style.left = "-9999px";
-        document.body.appendChild(ta);
-        ta.select();
-        document.execCommand("copy");
-        document.body.removeChild(ta);
-      }
-      setCopied(true);
-      setTimeout(() => setCopied(false), 1500);
+      await copyToClipboard(text);
+      setCopied(type);
+      setTimeout(() => setCopied(null), 1500);
     } catch (e) {
       // ignore copy errors silently
       console.error("copy failed", e);
     }
   }
 
-  // Waypoint choices (hidden entirely on Unassigned)
-  const showFix = laneKey !== "Unassigned";
-  const options = getFixOptions(laneKey, item);
+  // Waypoint choices (hidden entirely on Unassigned). A fix dropped from the configuration
+  // stays visible on the cards that already use it until someone picks another.
+  const showFix = laneKey !== INBOX_LANE;
+  const options = getFixOptions(lane, item);
   const valid = options.includes(item.waypoint) || item.waypoint === "";
 
-  useEffect(() => {
-    if (!valid && showFix) onChange({ waypoint: "" });
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [laneKey]);
+  // Tell others which field we're in, and show who else is typing where.
+  const focusProps = (field: keyof BoardItemFields) => ({
+    onFocus: () => onFocusField(field),
+    onBlur: () => onFocusField(null),
+  });
+  const inputClass = (field: keyof BoardItemFields) => `input-sm${editors[field] ? " being-edited" : ""}`;
+  const editingBy = (field: keyof BoardItemFields) =>
+    editors[field] && <span className="editing">✎ {editors[field]}</span>;
+
+  // Computed ETA over the selected fix; recalculated on every feed update for this pilot.
+  const eta = useMemo(
+    () => (showFix && item.waypoint ? etaToFix(pilot, item.waypoint) : null),
+    [showFix, item.waypoint, pilot]
+  );
+  // Only an ETA over a verified fix position is trusted enough to ask for a revision.
+  const drift = eta && !eta.approximate && item.estimate ? hhmmDiff(item.estimate, eta.hhmm) : null;
+  const needsRevision = drift !== null && Math.abs(drift) > config.estimateDriftMinutes;
+  const levels = useMemo(() => altitudeMismatch(item, pilot), [item.altitude, pilot]);
 
   return (
-    <div ref={setNodeRef} style={style} className="card dark-card">
+    <div
+      ref={(el) => {
+        setNodeRef(el);
+        cardRef.current = el;
+      }}
+      style={style}
+      className={`card dark-card${focused ? " card-focused" : ""}${selected ? " card-selected" : ""} urgency-${urgency.level}${needsRevision || levels ? " needs-revision" : ""}${conflicts?.length ? " in-conflict" : ""}${item.lastSeen ? " pilot-gone" : ""}`}
+    >
       <div className="card-top" {...attributes} {...listeners}>
-        <div className="callsign">{item.callsign}</div>
+        <div className="callsign">
+          <input
+            type="checkbox"
+            className="card-select"
+            checked={selected}
+            onChange={(e) => onSelect(e.target.checked)}
+            title="Select for bulk actions"
+          />
+          {item.callsign}
+          {item.source === "manual" && (
+            <span className="tag" title={item.vatsimCid ? `Manual card, linked to CID ${item.vatsimCid}` : "Manual card, pilot not connected yet"}>
+              {item.vatsimCid ? "MAN · live" : "MAN"}
+            </span>
+          )}
+          {item.lastSeen && (
+            <span
+              className="tag tag-gone"
+              title={
+                config.removeDisconnectedMinutes
+                  ? `Removed ${config.removeDisconnectedMinutes} min after the pilot left the feed`
+                  : "The pilot is no longer in the VATSIM feed"
+              }
+            >
+              Disconnected · last seen {fmtUtc(item.lastSeen)}
+            </span>
+          )}
+        </div>
         <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
-          <button className="copy" onClick={handleCopy}>{copied ? "Copied!" : "Copy"}</button>
-          <button className="remove" onClick={onDelete}>
-            Remove
+          <button className="copy" onClick={() => setShowHistory((v) => !v)}>
+            {showHistory ? "Hide history" : "History"}
+          </button>
+          <button className="copy" onClick={() => setShowMessages((v) => !v)} title="EST / CPL / ACP messages">
+            Msg
           </button>
+          <button className="copy" onClick={() => handleCopy()} title={templateMessage(lane?.copyFormat, values)}>
+            {copied === "TEXT" ? "Copied!" : "Copy"}
+          </button>
+          {permitted({ type: "item:complete", id }) && (
+            <button className="copy" onClick={onComplete} title="Handed off: move the card to the archive">
+              Complete
+            </button>
+          )}
+          {permitted({ type: "item:delete", id }) && (
+            <button className="remove" onClick={onDelete}>
+              Remove
+            </button>
+          )}
         </div>
       </div>
 
       <div className="grid">
         {showFix && (
           <div>
-            <label className="label">Fix</label>
+            <label className="label">Fix {editingBy("waypoint")}</label>
             <select
-              className="input-sm"
-              value={valid ? item.waypoint : ""}
+              className={inputClass("waypoint")}
+              value={item.waypoint}
+              disabled={!editable}
               onChange={(e) => onChange({ waypoint: e.target.value })}
+              {...focusProps("waypoint")}
             >
+              <option value="">Select</option>
+              {!valid && <option value={item.waypoint}>{item.waypoint} (removed)</option>}
               {options.map((w) => (
-                <option key={w} value={w === "—" ? "" : w}>
+                <option key={w} value={w}>
                   {w}
                 </option>
               ))}
@@ -332,32 +1207,70 @@ function SortableCard({ id, laneKey, item, onChange, onDelete }: SortableCardPro
         )}
 
         <div>
-          <label className="label">Estimate (HHMM)</label>
+          <label className="label">Estimate (HHMM) {editingBy("estimate")}</label>
           <input
-            className="input-sm"
+            className={inputClass("estimate")}
             placeholder="HHMM"
             value={item.estimate}
+            disabled={!editable}
             onChange={(e) => onChange({ estimate: fmtHHMM(e.target.value) })}
+            {...focusProps("estimate")}
           />
-        </div>
-
-        <div>
-          <label className="label">Altitude</label>
+          {eta && (
+            <div
+              className="suggest"
+              title={`${Math.round(eta.distanceNm)} nm at ${pilot?.groundspeed} kt${eta.approximate ? ` · approximate position for ${item.waypoint}` : ""}`}
+            >
+              <span>ETA {eta.approximate ? "~" : ""}{eta.hhmm}</span>
+              {editable && eta.hhmm !== item.estimate && (
+                <button className="copy" onClick={() => onChange({ estimate: eta.hhmm })}>
+                  Use
+                </button>
+              )}
+            </div>
+          )}
+          {urgency.minutes !== null && (
+            <div className={`countdown countdown-${urgency.level}`}>
+              {formatCountdown(urgency.minutes)}
+              {urgency.level === "due" && ` · coordinate within ${urgency.deadlineIn} min`}
+              {urgency.level === "late" && " · coordination deadline passed"}
+              {urgency.level === "overdue" && " · estimate passed"}
+            </div>
+          )}
+          {needsRevision && (
+            <div className="suggest revise">
+              Revise: {drift! > 0 ? "+" : ""}
+              {drift} min vs ETA
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="label">Altitude {editingBy("altitude")}</label>
           <input
-            className="input-sm"
+            className={inputClass("altitude")}
             placeholder="FL350"
             value={item.altitude}
+            disabled={!editable}
             onChange={(e) => onChange({ altitude: fmtFL(e.target.value) })}
+            {...focusProps("altitude")}
           />
+          {levels && (
+            <div className="suggest revise" title="The pilot's filed or actual altitude differs from the coordinated one">
+              {[levels.filed && `Filed ${levels.filed}`, levels.actual && `Actual ${levels.actual}`].filter(Boolean).join(" · ")}
+            </div>
+          )}
         </div>
 
         <div>
-          <label className="label">Mach</label>
+          <label className="label">Mach {editingBy("mach")}</label>
           <input
-            className="input-sm"
+            className={inputClass("mach")}
             placeholder="M82"
             value={item.mach}
+            disabled={!editable}
             onChange={(e) => onChange({ mach: fmtMach(e.target.value) })}
+            {...focusProps("mach")}
           />
         </div>
 
@@ -367,33 +1280,134 @@ function SortableCard({ id, laneKey, item, onChange, onDelete }: SortableCardPro
           <input className="input-sm" value={item.callsign} disabled />
         </div> */}
       </div>
+
+      {showMessages && (
+        <div className="messages">
+          {MESSAGE_TYPES.map((type) => (
+            <div key={type} className="message-row">
+              <button className="copy" onClick={() => handleCopy(type)}>
+                {copied === type ? "Copied!" : `Copy ${type}`}
+              </button>
+              <code>{structuredMessage(type, values)}</code>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {conflicts?.length ? (
+        <ul className="conflicts">
+          {conflicts.map((c) => (
+            <li key={c.withId}>⚠ {c.message}</li>
+          ))}
+        </ul>
+      ) : null}
+
+      {laneKey === INBOX_LANE && editable && <RouteSuggestion item={item} config={config} onAssign={onAssign} />}
+
+      <CoordinationBar
+        laneKey={laneKey}
+        item={item}
+        fixOptions={options}
+        onCoord={onCoord}
+        canCoord={(action) => permitted({ type: "item:coord", id, action })}
+      />
+
+      {showHistory && <CardHistory id={id} item={item} loadHistory={loadHistory} />}
     </div>
   );
 }
 
 /* ===========================
    Lane (droppable)
+   An automatic sort only changes what this browser shows; dragging within such a lane
+   does nothing, and the manual order is still there when the sort is switched off.
 =========================== */
+const LANE_SORT_LABELS: Record<LaneSort, string> = {
+  manual: "Manual",
+  estimate: "Estimate",
+  fix: "Fix",
+  altitude: "Level",
+};
+
 type LaneProps = {
   laneKey: LaneKey;
+  lane: LaneConfig | undefined;
+  config: FacilityConfig;
   ids: string[];
+  shown: string[]; // the cards passing the board filter, in the lane's sort order
+  sort: LaneSort;
+  onSort: (sort: LaneSort) => void;
+  filtering: boolean;
   items: Record<string, BoardItem>;
-  onPatch: (id: string, patch: Partial<BoardItemFields>) => void;
+  onPatch: (id: string, patch: Partial<BoardItemFields>, track?: boolean) => void;
   onDelete: (id: string) => void;
+  onComplete: (id: string) => void;
+  onCoord: (id: string, action: CoordAction, counter?: CoordValues) => void;
+  loadHistory: (id: string) => Promise<HistoryEntry[]>;
+  editorsFor: (id: string) => Partial<Record<keyof BoardItemFields, string>>;
+  onFocusField: (id: string, field: keyof BoardItemFields | null) => void;
+  traffic: Record<string, VatsimPilot>; // live pilots by upper-case callsign
+  conflicts: Record<string, Conflict[]>;
+  urgencies: Record<string, Urgency>;
+  onAssign: (id: string, lane: LaneKey, fix: string) => void;
+  permitted: (op: BoardOp) => boolean;
+  focusedId: string | null;
+  selected: Set<string>;
+  onSelect: (id: string, on: boolean) => void;
   [key: string]: any;
 };
 
-function Lane({ laneKey, ids, items, onPatch, onDelete }: LaneProps) {
+function Lane({
+  laneKey,
+  lane,
+  config,
+  ids,
+  shown,
+  sort,
+  onSort,
+  filtering,
+  items,
+  onPatch,
+  onDelete,
+  onComplete,
+  onCoord,
+  loadHistory,
+  editorsFor,
+  onFocusField,
+  traffic,
+  conflicts,
+  urgencies,
+  onAssign,
+  permitted,
+  focusedId,
+  selected,
+  onSelect,
+}: LaneProps) {
   const { setNodeRef, isOver } = useDroppable({ id: laneKey });
+  const late = ids.filter((id) => urgencies[id]?.level === "late").length;
+  const overdue = ids.filter((id) => urgencies[id]?.level === "overdue").length;
 
   return (
-    <div className="lane dark-lane">
+    <div className="lane dark-lane" style={{ borderLeft: `4px solid ${lane?.color || "var(--border)"}` }}>
       <div className="lane-head">
         <div className="brand">{laneKey}</div>
-        <div className="count">{ids.length}</div>
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          {late > 0 && <div className="count count-late">{late} late</div>}
+          {overdue > 0 && <div className="count count-overdue">{overdue} overdue</div>}
+          <div className="count" title={filtering ? "Shown / in lane" : undefined}>
+            {filtering ? `${shown.length}/${ids.length}` : ids.length}
+          </div>
+          <select className="lane-sort" value={sort} onChange={(e) => onSort(e.target.value as LaneSort)} title="Order of this lane">
+            {LANE_SORTS.map((s) => (
+              <option key={s} value={s}>
+                {LANE_SORT_LABELS[s]}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
 
-      <SortableContext items={ids} strategy={verticalListSortingStrategy}>
+      <SortableContext items={shown} strategy={verticalListSortingStrategy}>
         <div
           ref={setNodeRef}
           className="lane-dropzone"
@@ -405,14 +1419,29 @@ function Lane({ laneKey, ids, items, onPatch, onDelete }: LaneProps) {
             padding: 2,
           }}
         >
-          {ids.map((id) => (
+          {shown.map((id) => (
             <SortableCard
               key={id}
               id={id}
               laneKey={laneKey}
+              lane={lane}
+              config={config}
               item={items[id]}
-              onChange={(patch) => onPatch(id, patch)}
+              onChange={(patch, track) => onPatch(id, patch, track)}
               onDelete={() => onDelete(id)}
+              onComplete={() => onComplete(id)}
+              onCoord={(action, counter) => onCoord(id, action, counter)}
+              loadHistory={loadHistory}
+              editors={editorsFor(id)}
+              onFocusField={(field) => onFocusField(id, field)}
+              pilot={traffic[items[id].callsign.toUpperCase()]}
+              conflicts={conflicts[id]}
+              urgency={urgencies[id]}
+              onAssign={(lane, fix) => onAssign(id, lane, fix)}
+              permitted={permitted}
+              focused={focusedId === id}
+              selected={selected.has(id)}
+              onSelect={(on) => onSelect(id, on)}
             />
           ))}
         </div>
@@ -422,102 +1451,1302 @@ function Lane({ laneKey, ids, items, onPatch, onDelete }: LaneProps) {
 }
 
 /* ===========================
-   Main App
+   Board filter and bulk actions
 =========================== */
-export default function App() {
-  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 6 } }));
-  const { pilots, loading, err } = useVatsimPilots();
+type FilterBarProps = {
+  config: FacilityConfig;
+  filter: BoardFilter;
+  onChange: (filter: BoardFilter) => void;
+  shown: number;
+  total: number;
+  onSelectShown: () => void;
+};
 
-  const [query, setQuery] = useState("");
-  const filtered = useMemo(
-    () => pilots.filter((p) => callsignMatch(p.callsign, query)).slice(0, 50),
-    [pilots, query]
+function FilterBar({ config, filter, onChange, shown, total, onSelectShown }: FilterBarProps) {
+  const set = (k: keyof BoardFilter, v: string) => onChange({ ...filter, [k]: v || undefined });
+  const fixes = useMemo(() => [...new Set(config.lanes.flatMap((l) => l.fixes))].sort(), [config]);
+  return (
+    <div className="filter-bar">
+      <input className="input-sm" placeholder="Callsign" value={filter.callsign ?? ""} onChange={(e) => set("callsign", e.target.value.toUpperCase())} />
+      <select value={filter.fix ?? ""} onChange={(e) => set("fix", e.target.value)}>
+        <option value="">Any fix</option>
+        {fixes.map((f) => (
+          <option key={f} value={f}>
+            {f}
+          </option>
+        ))}
+      </select>
+      <input className="input-sm" placeholder="FL from" value={filter.minLevel ?? ""} onChange={(e) => set("minLevel", fmtFL(e.target.value))} />
+      <input className="input-sm" placeholder="FL to" value={filter.maxLevel ?? ""} onChange={(e) => set("maxLevel", fmtFL(e.target.value))} />
+      <select value={filter.status ?? ""} onChange={(e) => set("status", e.target.value)}>
+        <option value="">Any coordination</option>
+        {Object.entries(COORD_LABELS).map(([status, label]) => (
+          <option key={status} value={status}>
+            {label}
+          </option>
+        ))}
+      </select>
+      {isFiltering(filter) && (
+        <>
+          <span className="muted">
+            {shown} of {total} cards
+          </span>
+          <button className="copy" onClick={() => onChange({})}>
+            Clear
+          </button>
+        </>
+      )}
+      <button className="copy" onClick={onSelectShown} disabled={!shown} title="Select every card shown">
+        Select shown
+      </button>
+    </div>
   );
+}
+
+type BulkBarProps = {
+  count: number;
+  lanes: LaneKey[];
+  canEdit: boolean;
+  onMove: (lane: LaneKey) => void;
+  onComplete: () => void;
+  onDelete: () => void;
+  onCopy: () => Promise<void>;
+  onClear: () => void;
+};
+
+function BulkBar({ count, lanes, canEdit, onMove, onComplete, onDelete, onCopy, onClear }: BulkBarProps) {
+  const [copied, setCopied] = useState(false);
+
+  async function copy() {
+    try {
+      await onCopy();
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error("copy failed", e);
+    }
+  }
 
-  const [state, setState] = useState<BoardState>({
-    lanes: { ...DEFAULT_LANES },
-    items: {},
-    lastUpdated: Date.now(),
+  return (
+    <div className="bulk-bar">
+      <b>{count} selected</b>
+      {canEdit && (
+        <>
+          <select value="" onChange={(e) => e.target.value && onMove(e.target.value)}>
+            <option value="">Move to…</option>
+            {lanes.map((l) => (
+              <option key={l} value={l}>
+                {l}
+              </option>
+            ))}
+          </select>
+          <button className="copy" onClick={onComplete}>
+            Complete
+          </button>
+        </>
+      )}
+      <button className="copy" onClick={copy} title="Each card in its lane's copy format, one per line">
+        {copied ? "Copied!" : "Copy"}
+      </button>
+      {canEdit && (
+        <button className="remove" onClick={onDelete}>
+          Remove
+        </button>
+      )}
+      <button className="copy" onClick={onClear}>
+        Clear selection
+      </button>
+    </div>
+  );
+}
+
+/* ===========================
+   Situation map
+   The FIR outline, every lane's fixes and the live position of each carded aircraft,
+   drawn flat (a plain equirectangular projection is fine at this scale). Fixes are
+   drop targets: a card dropped on one goes to that fix's lane with the fix filled in.
+=========================== */
+const MAP_WIDTH = 900;
+const MAP_PAD_DEG = 0.8;
+const FIX_DROP = "fix:"; // droppable ids of map fixes; their data is a FixTarget
+
+interface FixTarget {
+  lane: LaneKey;
+  fix: string;
+}
+
+function mapProjection(points: [number, number][]) {
+  const lats = points.map((p) => p[0]);
+  const lons = points.map((p) => p[1]);
+  const minLat = Math.min(...lats) - MAP_PAD_DEG;
+  const maxLat = Math.max(...lats) + MAP_PAD_DEG;
+  const minLon = Math.min(...lons) - MAP_PAD_DEG;
+  const maxLon = Math.max(...lons) + MAP_PAD_DEG;
+  const kx = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  const scale = MAP_WIDTH / ((maxLon - minLon) * kx);
+  return {
+    height: Math.round((maxLat - minLat) * scale),
+    project: (lat: number, lon: number): [number, number] => [(lon - minLon) * kx * scale, (maxLat - lat) * scale],
+  };
+}
+
+// Fixes take a card only when the pointer is right on them; lanes and cards sort as before.
+const boardCollisions: CollisionDetection = (args) => {
+  const isFix = (c: { id: string | number }) => String(c.id).startsWith(FIX_DROP);
+  const onFix = pointerWithin({ ...args, droppableContainers: args.droppableContainers.filter(isFix) });
+  if (onFix.length) return onFix;
+  return closestCenter({ ...args, droppableContainers: args.droppableContainers.filter((c) => !isFix(c)) });
+};
+
+type MapFixProps = {
+  target: FixTarget;
+  color: string;
+  at: [number, number]; // projected position
+  [key: string]: any;
+};
+
+function MapFix({ target, color, at }: MapFixProps) {
+  const { setNodeRef, isOver } = useDroppable({ id: `${FIX_DROP}${target.lane}/${target.fix}`, data: target });
+  return (
+    <g
+      ref={setNodeRef as unknown as React.Ref<SVGGElement>}
+      className={`map-fix${isOver ? " over" : ""}`}
+      transform={`translate(${at[0].toFixed(1)} ${at[1].toFixed(1)})`}
+    >
+      <title>{`${target.fix} · ${target.lane}`}</title>
+      <circle r={13} className="map-fix-target" />
+      <path d="M0,-6 L5.5,4 L-5.5,4 Z" fill={color} />
+      <text y={17} textAnchor="middle">
+        {target.fix}
+      </text>
+    </g>
+  );
+}
+
+type SituationMapProps = {
+  config: FacilityConfig;
+  state: BoardState;
+  traffic: Record<string, VatsimPilot>;
+  onFocusCard: (id: string) => void;
+};
+
+function SituationMap({ config, state, traffic, onFocusCard }: SituationMapProps) {
+  const fixes = useMemo(
+    () =>
+      config.lanes.flatMap((lane) =>
+        lane.fixes.filter((fix) => FIXES[fix]).map((fix) => ({ target: { lane: lane.key, fix }, color: lane.color, pos: FIXES[fix] }))
+      ),
+    [config]
+  );
+  const { project, height } = useMemo(
+    () => mapProjection([...FIR.boundary, ...fixes.map(({ pos }) => [pos.lat, pos.lon] as [number, number])]),
+    [fixes]
+  );
+  const boundary = FIR.boundary.map(([lat, lon], i) => `${i ? "L" : "M"}${project(lat, lon).map((v) => v.toFixed(1)).join(",")}`).join(" ") + " Z";
+  const unplaced = config.lanes.flatMap((l) => l.fixes).filter((fix) => !FIXES[fix]);
+
+  const aircraft = Object.keys(state.lanes).flatMap((lane) =>
+    state.lanes[lane]
+      .map((id) => ({ id, lane, item: state.items[id], pilot: traffic[state.items[id].callsign.toUpperCase()] }))
+      .filter((a) => a.pilot)
+  );
+  const laneColor = (key: LaneKey) => config.lanes.find((l) => l.key === key)?.color || "#94a3b8";
+
+  return (
+    <div className="search-card dark-panel map-panel">
+      <svg className="situation-map" viewBox={`0 0 ${MAP_WIDTH} ${height}`} role="img" aria-label="Situation map">
+        <path d={boundary} className="map-fir" />
+        <text x={10} y={20} className="map-fir-name">
+          {FIR.name}
+        </text>
+        {fixes.map(({ target, color, pos }) => (
+          <MapFix key={`${target.lane}/${target.fix}`} target={target} color={color} at={project(pos.lat, pos.lon)} />
+        ))}
+        {aircraft.map(({ id, lane, item, pilot }) => {
+          const [x, y] = project(pilot.latitude, pilot.longitude);
+          return (
+            <g key={id} className="map-aircraft" transform={`translate(${x.toFixed(1)} ${y.toFixed(1)})`} onClick={() => onFocusCard(id)}>
+              <title>{`${item.callsign} · ${lane}${item.waypoint ? ` · ${item.waypoint}` : ""}${item.estimate ? ` ${item.estimate}` : ""}`}</title>
+              <circle r={10} className="map-aircraft-target" />
+              <path d="M0,-8 L5,6 L0,3 L-5,6 Z" fill={laneColor(lane)} transform={`rotate(${pilot.heading ?? 0})`} />
+              <text x={10} y={0}>
+                {item.callsign}
+              </text>
+              <text x={10} y={11} className="map-aircraft-level">
+                {fmtFL(String(Math.round(pilot.altitude / 100)).padStart(3, "0"))} {pilot.groundspeed}kt
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <div className="muted map-legend">
+        Drag a card onto a fix to move it to that lane with the fix set · click an aircraft to find its card
+        {unplaced.length > 0 && ` · no position for ${unplaced.join(", ")} (add it to shared/fixes.json)`}
+      </div>
+    </div>
+  );
+}
+
+/* ===========================
+   Manual cards & bulk import
+   Both go through normalizeCard(), so a typed-in card and an imported slot list
+   are held to the same rules. The server links them to the live pilot later.
+=========================== */
+const EMPTY_MANUAL = { callsign: "", lane: INBOX_LANE, fix: "", estimate: "", altitude: "", mach: "", squawk: "", route: "" };
+
+type ManualCardFormProps = {
+  config: FacilityConfig;
+  onAdd: (card: ImportedCard) => string | null; // error when the board refuses it
+  onClose: () => void;
+};
+
+function ManualCardForm({ config, onAdd, onClose }: ManualCardFormProps) {
+  const [form, setForm] = useState(EMPTY_MANUAL);
+  const [error, setError] = useState<string | null>(null);
+  const lane = config.lanes.find((l) => l.key === form.lane);
+  const set = (k: keyof typeof EMPTY_MANUAL, v: string) => setForm((f) => ({ ...f, [k]: v }));
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    const result = normalizeCard(form, config);
+    const err = "error" in result ? result.error : onAdd(result.card);
+    setError(err);
+    if (!err) setForm({ ...EMPTY_MANUAL, lane: form.lane }); // ready for the next strip in the same lane
+  }
+
+  return (
+    <form className="search-card dark-panel" style={{ marginBottom: 12 }} onSubmit={submit}>
+      <div style={{ marginBottom: 6 }} className="muted">
+        New manual card — for traffic not connected yet; it is linked to the pilot once the callsign appears in the feed
+      </div>
+      <div className="grid">
+        <div>
+          <label className="label">Callsign</label>
+          <input className="input-sm" placeholder="JBU123" value={form.callsign} onChange={(e) => set("callsign", e.target.value.toUpperCase())} />
+        </div>
+        <div>
+          <label className="label">Lane</label>
+          <select value={form.lane} onChange={(e) => setForm((f) => ({ ...f, lane: e.target.value, fix: "" }))}>
+            {config.lanes.map((l) => (
+              <option key={l.key} value={l.key}>
+                {l.key}
+              </option>
+            ))}
+          </select>
+        </div>
+        {lane?.key !== INBOX_LANE && (
+          <div>
+            <label className="label">Fix</label>
+            {lane?.fixes.length ? (
+              <select value={form.fix} onChange={(e) => set("fix", e.target.value)}>
+                <option value="">Select</option>
+                {lane.fixes.map((f) => (
+                  <option key={f} value={f}>
+                    {f}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input className="input-sm" value={form.fix} onChange={(e) => set("fix", e.target.value.toUpperCase())} />
+            )}
+          </div>
+        )}
+        <div>
+          <label className="label">Estimate (HHMM)</label>
+          <input className="input-sm" placeholder="HHMM" value={form.estimate} onChange={(e) => set("estimate", fmtHHMM(e.target.value))} />
+        </div>
+        <div>
+          <label className="label">Altitude</label>
+          <input
+            className="input-sm"
+            placeholder={lane?.defaultAltitude || "FL350"}
+            value={form.altitude}
+            onChange={(e) => set("altitude", fmtFL(e.target.value))}
+          />
+        </div>
+        <div>
+          <label className="label">Mach</label>
+          <input className="input-sm" placeholder="M82" value={form.mach} onChange={(e) => set("mach", fmtMach(e.target.value))} />
+        </div>
+        <div>
+          <label className="label">Squawk</label>
+          <input className="input-sm" placeholder="2301" value={form.squawk} onChange={(e) => set("squawk", digits(e.target.value).slice(0, 4))} />
+        </div>
+      </div>
+      <div style={{ marginTop: 10 }}>
+        <label className="label">Route</label>
+        <input
+          className="input-sm"
+          placeholder="TJSJ DCT ANADA UL695 ..."
+          value={form.route}
+          onChange={(e) => set("route", e.target.value.toUpperCase())}
+        />
+      </div>
+      <div style={{ display: "flex", gap: 8, marginTop: 10, alignItems: "center" }}>
+        <button className="copy" type="submit" disabled={!form.callsign}>
+          Add card
+        </button>
+        <button className="remove" type="button" onClick={onClose}>
+          Close
+        </button>
+        {error && <span className="muted" style={{ color: "var(--danger)" }}>{error}</span>}
+      </div>
+    </form>
+  );
+}
+
+type ImportPanelProps = {
+  config: FacilityConfig;
+  existing: Set<string>; // upper-case callsigns already on the board
+  onImport: (cards: ImportedCard[]) => void;
+  onRestore?: (data: unknown) => Promise<string | null>; // admins only
+  onClose: () => void;
+};
+
+// A JSON board export (see shared/export.mjs), as opposed to a list of cards. Only the
+// format marker is known to match until readBoardExport has checked the rest.
+function asBoardExport(text: string): Partial<BoardExport> | null {
+  if (!text.trim().startsWith("{")) return null;
+  try {
+    const data = JSON.parse(text);
+    return data?.format === EXPORT_FORMAT ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+function ImportPanel({ config, existing, onImport, onRestore, onClose }: ImportPanelProps) {
+  const [text, setText] = useState("");
+  const [imported, setImported] = useState<number | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const boardExport = useMemo(() => asBoardExport(text), [text]);
+  const { cards, errors } = useMemo(
+    () => (boardExport ? { cards: [], errors: [] } : parseImport(text, config, existing)),
+    [boardExport, text, config, existing]
+  );
+  const checked = useMemo(() => (boardExport ? readBoardExport(boardExport) : null), [boardExport]);
+  const exportError = checked && "error" in checked ? checked.error : undefined;
+  const validExport = checked && "state" in checked ? (boardExport as BoardExport) : null;
+
+  async function restore() {
+    if (!onRestore || !validExport) return;
+    if (!confirm(`Replace this board with the export of "${validExport.board}"? The current board is archived first.`)) return;
+    const err = await onRestore(validExport);
+    setRestoreError(err);
+    if (!err) {
+      setText("");
+      onClose();
+    }
+  }
+
+  async function loadFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (file) setText(await file.text());
+    e.target.value = "";
+  }
+
+  function submit() {
+    onImport(cards);
+    setImported(cards.length);
+    setText("");
+  }
+
+  return (
+    <div className="search-card dark-panel" style={{ marginBottom: 12 }}>
+      <div style={{ marginBottom: 6 }} className="muted">
+        Import cards from CSV (header row) or JSON (array of objects). Columns: {IMPORT_COLUMNS.join(", ")} — only callsign is required.
+        A JSON board export restores the board exactly.
+      </div>
+      <input type="file" accept=".csv,.json,.txt,text/csv,application/json" onChange={loadFile} />
+      <textarea
+        className="input-sm"
+        rows={6}
+        style={{ marginTop: 8, fontFamily: "monospace" }}
+        placeholder={"callsign,lane,fix,estimate,altitude,mach,squawk,route\nJBU123,Piarco,ANADA,1432,FL350,M82,,TJSJ ANADA UL695"}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setImported(null);
+        }}
+      />
+      {boardExport && (
+        <div style={{ marginTop: 8 }}>
+          <div className="muted">
+            Board export of "{boardExport.board}"
+            {typeof boardExport.exportedAt === "number" && ` from ${new Date(boardExport.exportedAt).toISOString().slice(0, 16).replace("T", " ")}Z`}
+            {" "}— {Object.keys(boardExport.state?.items || {}).length} cards. Restoring replaces every card on this board.
+          </div>
+          {(exportError || restoreError || !onRestore) && (
+            <div className="import-errors">{exportError || restoreError || "Only admins can restore a board"}</div>
+          )}
+          <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+            <button className="remove" onClick={restore} disabled={!!exportError || !onRestore}>
+              Restore board from export
+            </button>
+            <button className="copy" onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+      {errors.length > 0 && (
+        <ul className="import-errors">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+      {!boardExport && (
+        <div style={{ display: "flex", gap: 8, marginTop: 10, alignItems: "center" }}>
+          <button className="copy" onClick={submit} disabled={!cards.length}>
+            Import {cards.length || ""} card{cards.length === 1 ? "" : "s"}
+          </button>
+          <button className="remove" onClick={onClose}>
+            Close
+          </button>
+          {imported !== null && <span className="muted">Imported {imported} cards</span>}
+          {!!cards.length && errors.length > 0 && <span className="muted">Rows with errors are skipped</span>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ===========================
+   Command line
+   "/" focuses it from anywhere on the board. Tab completes the current word,
+   ↑/↓ walk through earlier commands, Esc clears.
+=========================== */
+const COMMAND_HISTORY_LIMIT = 50;
+
+type CommandLineProps = {
+  config: FacilityConfig;
+  socket: Socket | null;
+  callsigns: string[]; // cards on the board
+  onRun: (cmd: ParsedCommand) => Promise<string>; // confirmation; throws with a message the controller can act on
+};
+
+function CommandLine({ config, socket, callsigns, onRun }: CommandLineProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [history, setHistory] = useState<string[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(COMMAND_HISTORY_KEY) || "[]");
+    } catch {
+      return [];
+    }
   });
+  const [cursor, setCursor] = useState<number | null>(null); // index into history while browsing
+
+  // Callsigns come from the board and, while the first word is typed, the live feed.
+  const firstWord = /^\S+$/.test(text) ? text : "";
+  const live = useVatsimSearch(socket, firstWord);
+  const aliases = useMemo(() => laneAliases(config), [config]);
+  const fixes = useMemo(() => config.lanes.flatMap((l) => l.fixes), [config]);
+  const completions = useMemo(
+    () => completeCommand(text, { callsigns: [...callsigns, ...live.map((p) => p.callsign.toUpperCase())], lanes: aliases, fixes }),
+    [text, callsigns, live, aliases, fixes]
+  );
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      const t = e.target as HTMLElement | null;
+      if (e.key !== "/" || (t && (t.tagName === "INPUT" || t.tagName === "SELECT" || t.tagName === "TEXTAREA"))) return;
+      e.preventDefault();
+      inputRef.current?.focus();
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  function complete(word: string) {
+    const parts = text.split(/\s+/);
+    const slash = parts[parts.length - 1].startsWith("/") ? "/" : "";
+    setText([...parts.slice(0, -1), slash + word].join(" ") + " ");
+    inputRef.current?.focus();
+  }
+
+  async function run() {
+    const parsed = parseCommand(text, config);
+    if ("error" in parsed) return setResult({ ok: false, message: parsed.error });
+    const next = [text.trim().toUpperCase(), ...history.filter((h) => h !== text.trim().toUpperCase())].slice(0, COMMAND_HISTORY_LIMIT);
+    localStorage.setItem(COMMAND_HISTORY_KEY, JSON.stringify(next));
+    setHistory(next);
+    setCursor(null);
+    try {
+      setResult({ ok: true, message: await onRun(parsed) });
+      setText("");
+    } catch (e: any) {
+      setResult({ ok: false, message: e.message });
+    }
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      run();
+    } else if (e.key === "Tab" && completions.length) {
+      e.preventDefault();
+      complete(completions[0]);
+    } else if (e.key === "ArrowUp" && history.length) {
+      e.preventDefault();
+      const i = cursor === null ? 0 : Math.min(cursor + 1, history.length - 1);
+      setCursor(i);
+      setText(history[i]);
+    } else if (e.key === "ArrowDown" && cursor !== null) {
+      e.preventDefault();
+      const i = cursor - 1;
+      setCursor(i < 0 ? null : i);
+      setText(i < 0 ? "" : history[i]);
+    } else if (e.key === "Escape") {
+      setText("");
+      setCursor(null);
+      setResult(null);
+    }
+  }
 
-  const { sendItemPatch, sendMove } = useRealtimeSync(state, (updater) =>
-    setState((prev) => updater(prev))
+  return (
+    <div className="command-line">
+      <input
+        ref={inputRef}
+        className="input dark-input command-input"
+        placeholder="/  JBU123 NY DAWIN 1432 350 82 · AAL45 /FL370 · DEL AAL45"
+        value={text}
+        spellCheck={false}
+        onChange={(e) => {
+          setText(e.target.value.toUpperCase());
+          setResult(null);
+        }}
+        onKeyDown={onKeyDown}
+      />
+      {completions.length > 0 && (
+        <div className="completions">
+          {completions.map((c, i) => (
+            <button key={c} className={`pill dark-pill${i === 0 ? " first" : ""}`} onClick={() => complete(c)} tabIndex={-1}>
+              {aliases.get(c) && aliases.get(c) !== c ? `${c} (${aliases.get(c)})` : c}
+            </button>
+          ))}
+        </div>
+      )}
+      {result && <div className={`command-result${result.ok ? "" : " error"}`}>{result.message}</div>}
+    </div>
   );
+}
+
+/* ===========================
+   Incoming messages (paste from a text channel)
+=========================== */
+type MessagePanelProps = {
+  config: FacilityConfig;
+  onApply: (msg: ParsedMessage) => Promise<string>;
+  onClose: () => void;
+};
+
+function MessagePanel({ config, onApply, onClose }: MessagePanelProps) {
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const parsed = useMemo(() => (text.trim() ? parseMessage(text, config) : null), [text, config]);
+
+  async function apply() {
+    if (!parsed || "error" in parsed) return;
+    try {
+      setResult({ ok: true, message: await onApply(parsed) });
+      setText("");
+    } catch (e: any) {
+      setResult({ ok: false, message: e.message });
+    }
+  }
 
-  // ---- CRUD ----
+  return (
+    <div className="search-card dark-panel" style={{ marginBottom: 12 }}>
+      <div style={{ marginBottom: 6 }} className="muted">
+        Paste an EST, CPL or ACP message, or a line written with one of the lane templates, to update the card
+      </div>
+      <textarea
+        className="input-sm"
+        rows={3}
+        style={{ fontFamily: "monospace" }}
+        placeholder="(EST-JBU123/A2201-KJFK-DAWIN/1432F350-TJSJ)"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setResult(null);
+        }}
+      />
+      {parsed && "error" in parsed && <div className="import-errors">{parsed.error}</div>}
+      {parsed && !("error" in parsed) && (
+        <div className="muted" style={{ marginTop: 6 }}>
+          {parsed.type === "ACP"
+            ? `${parsed.callsign}: accepts the coordination`
+            : `${parsed.type} ${parsed.callsign}${parsed.lane ? ` → ${parsed.lane}` : ""} · ${Object.values(parsed.fields).join(" ") || "no fields"}`}
+        </div>
+      )}
+      <div style={{ display: "flex", gap: 8, marginTop: 10, alignItems: "center" }}>
+        <button className="copy" onClick={apply} disabled={!parsed || "error" in parsed}>
+          Apply
+        </button>
+        <button className="remove" onClick={onClose}>
+          Close
+        </button>
+        {result && <span className={`command-result${result.ok ? "" : " error"}`}>{result.message}</span>}
+      </div>
+    </div>
+  );
+}
+
+/* ===========================
+   Export & handover
+=========================== */
+type ExportPanelProps = {
+  boardName: string;
+  downloadToken: () => Promise<{ token?: string; error?: string }>;
+  onClose: () => void;
+};
+
+function ExportPanel({ boardName, downloadToken, onClose }: ExportPanelProps) {
+  const [error, setError] = useState<string | null>(null);
+  const base = `${SOCKET_URL}/api/boards/${boardName}`;
+
+  // Links carry a short-lived download token rather than the session. The report tab is
+  // opened before the token arrives so the popup blocker lets it through.
+  async function open(file: string, inTab: boolean) {
+    const tab = inTab ? window.open("", "_blank") : null;
+    const { token, error: refused } = await downloadToken();
+    if (!token) {
+      tab?.close();
+      return setError(refused || "Could not start the download");
+    }
+    setError(null);
+    const url = `${base}/${file}?download=${encodeURIComponent(token)}`;
+    if (tab) tab.location.href = url;
+    else window.location.assign(url); // served as an attachment, so the board stays open
+  }
+
+  return (
+    <div className="search-card dark-panel" style={{ marginBottom: 12 }}>
+      <div style={{ marginBottom: 6 }} className="muted">
+        Hand the board over: the report lists every lane in estimate order with overdue cards marked. The JSON export
+        can be imported again to restore this exact board.
+      </div>
+      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <button className="copy" onClick={() => open("report.html", true)}>
+          Handover report
+        </button>
+        <button className="copy" onClick={() => open("export.csv", false)}>
+          Export CSV
+        </button>
+        <button className="copy" onClick={() => open("export.json", false)}>
+          Export JSON
+        </button>
+        <button className="remove" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      {error && <div className="import-errors">{error}</div>}
+    </div>
+  );
+}
+
+/* ===========================
+   Archive of completed cards
+   Searchable by callsign, fix, lane and estimate range. A card goes back into a lane
+   when the aircraft turns around or its coordination has to be revisited.
+=========================== */
+const ARCHIVE_LIMIT = 100; // rows shown; older cards need a narrower search
+
+type ArchivePanelProps = {
+  config: FacilityConfig;
+  completed: Record<string, CompletedCard> | undefined;
+  onReactivate: (id: string, lane: LaneKey) => void;
+  loadHistory: (id: string) => Promise<HistoryEntry[]>;
+  permitted: (op: BoardOp) => boolean;
+  onClose: () => void;
+};
+
+function ArchivePanel({ config, completed, onReactivate, loadHistory, permitted, onClose }: ArchivePanelProps) {
+  const [query, setQuery] = useState<ArchiveQuery>({});
+  const [targets, setTargets] = useState<Record<string, LaneKey>>({}); // id -> lane picked for reactivation
+  const [historyOf, setHistoryOf] = useState<string | null>(null);
+  const set = (k: keyof ArchiveQuery, v: string) => setQuery((q) => ({ ...q, [k]: v || undefined }));
+
+  const results = useMemo(() => searchArchive(completed, query), [completed, query]);
+  const laneKeys = config.lanes.map((l) => l.key);
+  // Lanes removed since still find the cards completed in them.
+  const searchLanes = [...new Set([...laneKeys, ...Object.values(completed || {}).map((c) => c.lane)])];
+  const fixes = useMemo(() => [...new Set(config.lanes.flatMap((l) => l.fixes))].sort(), [config]);
+  // Back to the lane it left, or Unassigned when that lane is gone.
+  const targetOf = (c: CompletedCard) => targets[c.item.id] ?? (laneKeys.includes(c.lane) ? c.lane : INBOX_LANE);
+
+  return (
+    <div className="search-card dark-panel" style={{ marginBottom: 12 }}>
+      <div style={{ marginBottom: 6 }} className="muted">
+        Completed cards, with their final values and lane
+        {config.autoCompleteMinutes ? ` — cards are completed ${config.autoCompleteMinutes} min after their estimate` : ""}
+      </div>
+      <div className="grid">
+        <div>
+          <label className="label">Callsign</label>
+          <input className="input-sm" placeholder="JBU" value={query.callsign ?? ""} onChange={(e) => set("callsign", e.target.value.toUpperCase())} />
+        </div>
+        <div>
+          <label className="label">Fix</label>
+          <select value={query.fix ?? ""} onChange={(e) => set("fix", e.target.value)}>
+            <option value="">Any</option>
+            {fixes.map((f) => (
+              <option key={f} value={f}>
+                {f}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="label">Lane</label>
+          <select value={query.lane ?? ""} onChange={(e) => set("lane", e.target.value)}>
+            <option value="">Any</option>
+            {searchLanes.map((l) => (
+              <option key={l} value={l}>
+                {l}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="label">Estimate from</label>
+          <input className="input-sm" placeholder="HHMM" value={query.from ?? ""} onChange={(e) => set("from", fmtHHMM(e.target.value))} />
+        </div>
+        <div>
+          <label className="label">to</label>
+          <input className="input-sm" placeholder="HHMM" value={query.to ?? ""} onChange={(e) => set("to", fmtHHMM(e.target.value))} />
+        </div>
+      </div>
+
+      <div className="archive-list">
+        {results.slice(0, ARCHIVE_LIMIT).map((c) => {
+          const { item } = c;
+          const lane = targetOf(c);
+          const color = config.lanes.find((l) => l.key === c.lane)?.color;
+          return (
+            <div key={item.id} className="archive-entry">
+              <div className="archive-row">
+                <span className="archive-callsign" style={{ borderLeftColor: color || "var(--border)" }}>
+                  {item.callsign}
+                </span>
+                <span>{c.lane}</span>
+                <span>{[item.waypoint, item.estimate && `${item.estimate}Z`, item.altitude, item.mach, item.squawk].filter(Boolean).join(" ") || "—"}</span>
+                <span className="muted">
+                  {COORD_LABELS[coordOf(item).status]}
+                  {c.completedAt ? ` · completed ${fmtUtc(c.completedAt)}` : ""}
+                </span>
+                <button className="copy" onClick={() => setHistoryOf(historyOf === item.id ? null : item.id)}>
+                  {historyOf === item.id ? "Hide history" : "History"}
+                </button>
+                {permitted({ type: "item:reactivate", id: item.id, lane }) && (
+                  <>
+                    <select value={lane} onChange={(e) => setTargets((t) => ({ ...t, [item.id]: e.target.value }))}>
+                      {laneKeys.map((l) => (
+                        <option key={l} value={l}>
+                          {l}
+                        </option>
+                      ))}
+                    </select>
+                    <button className="copy" onClick={() => onReactivate(item.id, lane)} title="Put the card back on the board">
+                      Reactivate
+                    </button>
+                  </>
+                )}
+              </div>
+              {historyOf === item.id && <CardHistory id={item.id} item={item} loadHistory={loadHistory} />}
+            </div>
+          );
+        })}
+        {!results.length && (
+          <div className="muted">{Object.keys(completed || {}).length ? "No completed cards match" : "No cards completed yet"}</div>
+        )}
+        {results.length > ARCHIVE_LIMIT && (
+          <div className="muted">
+            Showing the latest {ARCHIVE_LIMIT} of {results.length}; narrow the search to find older cards
+          </div>
+        )}
+      </div>
+      <div style={{ marginTop: 10 }}>
+        <button className="remove" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* ===========================
+   Board picker (/)
+=========================== */
+interface BoardSummary {
+  name: string;
+  cards: number;
+  lastUpdated: number;
+}
+
+function BoardPicker() {
+  const socketRef = useRef<Socket | null>(null);
+  const [boards, setBoards] = useState<BoardSummary[]>([]);
+  const [name, setName] = useState("");
+  const [cloneFrom, setCloneFrom] = useState("");
+  const [withCards, setWithCards] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const socket = io(SOCKET_URL, { transports: ["websocket"] });
+    socketRef.current = socket;
+    socket.on("connect", () => {
+      identify(socket); // creating boards needs a controller session
+      socket.emit("boards:list");
+    });
+    socket.on("boards:list", (list: BoardSummary[]) => setBoards(list));
+    socket.on("board:error", ({ message }: { message: string }) => setError(message));
+    socket.on("board:created", ({ name }: { name: string }) => location.assign(boardUrl(name)));
+    return () => {
+      socket.disconnect();
+    };
+  }, []);
+
+  function createBoard(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    socketRef.current?.emit("board:create", {
+      name: name.trim().toLowerCase(),
+      cloneFrom: cloneFrom || undefined,
+      withCards,
+    });
+  }
+
+  return (
+    <div className="dark-root">
+      <div className="top dark-top">
+        <div className="inner container">
+          <div className="brand">Coordination Boards</div>
+          <a className="muted" href="/admin">
+            Facility configuration
+          </a>
+        </div>
+      </div>
+
+      <div className="container">
+        <div className="board">
+          <div className="lane dark-lane">
+            <div className="lane-head">
+              <div className="brand">Open a board</div>
+              <div className="count">{boards.length}</div>
+            </div>
+            {boards.map((b) => (
+              <a key={b.name} className="board-link card dark-card" href={boardUrl(b.name)}>
+                <span className="callsign">{b.name}</span>
+                <span className="muted">
+                  {b.cards} cards · updated {new Date(b.lastUpdated).toISOString().slice(0, 16).replace("T", " ")}Z
+                </span>
+              </a>
+            ))}
+            {!boards.length && <div className="muted">No boards yet</div>}
+          </div>
+
+          <form className="lane dark-lane" onSubmit={createBoard}>
+            <div className="lane-head">
+              <div className="brand">New board</div>
+            </div>
+            <div className="grid">
+              <div>
+                <label className="label">Name</label>
+                <input
+                  className="input-sm"
+                  placeholder="fnm-2026-10-24"
+                  value={name}
+                  onChange={(e) => setName(e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, "-"))}
+                />
+              </div>
+              <div>
+                <label className="label">Clone layout from</label>
+                <select value={cloneFrom} onChange={(e) => setCloneFrom(e.target.value)}>
+                  <option value="">— empty board —</option>
+                  {boards.map((b) => (
+                    <option key={b.name} value={b.name}>
+                      {b.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="label">&nbsp;</label>
+                <label className="muted">
+                  <input
+                    type="checkbox"
+                    checked={withCards}
+                    disabled={!cloneFrom}
+                    onChange={(e) => setWithCards(e.target.checked)}
+                  />{" "}
+                  Copy cards too
+                </label>
+              </div>
+              <div>
+                <label className="label">&nbsp;</label>
+                <button className="copy" type="submit" disabled={!name}>
+                  Create board
+                </button>
+              </div>
+            </div>
+            {error && <div className="muted" style={{ color: "var(--danger)", marginTop: 8 }}>{error}</div>}
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ===========================
+   Main App
+=========================== */
+export default function App() {
+  if (location.pathname.replace(/\/$/, "") === "/admin") return <AdminScreen />;
+  const boardName = boardFromPath();
+  return boardName ? <BoardView boardName={boardName} /> : <BoardPicker />;
+}
+
+function BoardView({ boardName }: { boardName: string }) {
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 6 } }));
+  const [query, setQuery] = useState("");
+  const [autoAssign, setAutoAssign] = useState(() => localStorage.getItem(AUTO_ASSIGN_KEY) === "1");
+  // Stored, but audio still needs this session's click on the toggle before it can play.
+  const [soundAlerts, setSoundAlerts] = useState(() => localStorage.getItem(SOUND_KEY) === "1");
+  const now = useUtcNow(10_000);
+
+  function toggleSound(on: boolean) {
+    localStorage.setItem(SOUND_KEY, on ? "1" : "0");
+    setSoundAlerts(on);
+    if (on) {
+      unlockAudio();
+      chime();
+    }
+  }
+
+  const [showMap, setShowMap] = useState(() => localStorage.getItem(MAP_KEY) === "1");
+  function toggleMap() {
+    localStorage.setItem(MAP_KEY, showMap ? "0" : "1");
+    setShowMap(!showMap);
+  }
+
+  // Per-lane sort, kept in this browser; lanes without an entry show the manual order.
+  const [laneSorts, setLaneSorts] = useState(loadLaneSorts);
+  function setLaneSort(lane: LaneKey, sort: LaneSort) {
+    const { [lane]: _, ...rest } = laneSorts;
+    const next = sort === "manual" ? rest : { ...rest, [lane]: sort };
+    localStorage.setItem(LANE_SORT_KEY, JSON.stringify(next));
+    setLaneSorts(next);
+  }
+  const [filter, setFilter] = useState<BoardFilter>({});
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+
+  // An aircraft clicked on the map: its card scrolls into view and is highlighted for a moment.
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  function focusCard(id: string) {
+    setFocusedId(id);
+    setTimeout(() => setFocusedId((f) => (f === id ? null : f)), 2000);
+  }
+
+  function toggleAutoAssign(on: boolean) {
+    localStorage.setItem(AUTO_ASSIGN_KEY, on ? "1" : "0");
+    setAutoAssign(on);
+  }
+
+  const [editingIdentity, setEditingIdentity] = useState(false);
+  const [panel, setPanel] = useState<"manual" | "import" | "export" | "message" | "archive" | null>(null);
+  const {
+    socket,
+    config,
+    state,
+    dispatch: dispatchOp,
+    sendReset,
+    restoreBoard,
+    downloadToken,
+    loadHistory,
+    boardError,
+    opError,
+    connection,
+    queued,
+    replayConflicts,
+    resolveConflict,
+    presence,
+    selfId,
+    identity,
+    permissions,
+    openAccess,
+    identifyAs,
+    identityError,
+    focusField,
+  } = useBoardSync(boardName);
+  // The server enforces all of this; the UI just doesn't offer what would be refused.
+  const canEdit = hasRole(permissions, "controller");
+  const isAdmin = hasRole(permissions, "admin");
+  const permitted = (op: BoardOp) => !config || !opPermission(permissions, state, op, config);
+  const { traffic, status: feedStatus } = useVatsimTraffic(socket);
+  const filtered = useVatsimSearch(socket, query);
+  const { perform: dispatch, undo, redo, canUndo, canRedo } = useUndoRedo(state, dispatchOp);
+
+  // ---- CRUD (each mutation is one op) ----
   function addPilotToUnassigned(p: VatsimPilot) {
-    // Only one card per callsign across all lanes
+    // Only one card per callsign across all lanes (the server enforces this too)
     const exists = (Object.values(state.items) as BoardItem[]).some(
       (x) => x.callsign.toLowerCase() === p.callsign.toLowerCase()
     );
     if (exists) return;
 
-    const id = uuidv4();
-    const item: BoardItem = {
-      id,
-      source: "vatsim",
-      callsign: p.callsign,
-      waypoint: "",
-      estimate: "",
-      altitude: fmtFL(p.flight_plan?.altitude || String(p.altitude || "")),
-      mach: "",
-  squawk: (p as any)?.flight_plan?.assigned_transponder || "",
-      routeWaypoints: parseWaypointsFromRoute(p.flight_plan?.route ?? ""),
-    };
+    const item = pilotItem(p);
+
+    // With auto-assign on, an unambiguous route match goes straight to its lane and fix.
+    const matches = config ? routeSuggestions(item, config) : [];
+    if (autoAssign && matches.length === 1) {
+      const { lane, fix } = matches[0];
+      const altitude = item.altitude || laneConfig(lane)?.defaultAltitude || "";
+      dispatch({ type: "item:add", item: { ...item, waypoint: fix, altitude }, lane });
+      return;
+    }
+    dispatch({ type: "item:add", item, lane: INBOX_LANE });
+  }
+
+  // ---- Command line ----
+  const findLivePilot = (callsign: string) =>
+    new Promise<VatsimPilot | undefined>((resolve) => {
+      if (!socket?.connected) return resolve(undefined);
+      socket.emit("vatsim:search", { q: callsign, limit: 20 }, (list: VatsimPilot[]) =>
+        resolve(Array.isArray(list) ? list.find((p) => p.callsign.toUpperCase() === callsign) : undefined)
+      );
+    });
+
+  // Same paths as the mouse: addPilotToUnassigned / item:add, moveItem, patchItem, deleteItem.
+  async function runCommand(cmd: ParsedCommand): Promise<string> {
+    const existing = (Object.values(state.items) as BoardItem[]).find((x) => x.callsign.toUpperCase() === cmd.callsign);
+    const fieldList = Object.values(cmd.fields).join(" ");
+
+    if (cmd.verb === "delete") {
+      if (!existing) throw new Error(`${cmd.callsign} is not on the board`);
+      deleteItem(existing.id);
+      return `${cmd.callsign} removed`;
+    }
+
+    const current = existing && (Object.keys(state.lanes) as LaneKey[]).find((k) => state.lanes[k].includes(existing.id));
+    const target = cmd.lane ?? current ?? INBOX_LANE;
+    const fix = cmd.fields.waypoint;
+    if (fix && target !== INBOX_LANE) {
+      const options = existing ? getFixOptions(laneConfig(target), existing) : laneConfig(target)?.fixes || [];
+      if (options.length && !options.includes(fix)) throw new Error(`${fix} is not a ${target} fix (${options.join(", ")})`);
+    }
+
+    if (!existing) {
+      const pilot = await findLivePilot(cmd.callsign);
+      if (cmd.verb === "add" && pilot) {
+        addPilotToUnassigned(pilot);
+        return `${cmd.callsign} added from the live feed`;
+      }
+      const base: BoardItem = pilot
+        ? pilotItem(pilot)
+        : { id: uuidv4(), source: "manual", callsign: cmd.callsign, waypoint: "", estimate: "", altitude: "", mach: "", squawk: "", routeWaypoints: [] };
+      const item = { ...base, ...cmd.fields };
+      if (cmd.routeWaypoints?.length) item.routeWaypoints = cmd.routeWaypoints;
+      if (!item.altitude) item.altitude = laneConfig(target)?.defaultAltitude || "";
+      dispatch({ type: "item:add", item, lane: target });
+      return `${cmd.callsign} added to ${target}${pilot ? "" : " (manual, not connected)"}${fieldList ? ` · ${fieldList}` : ""}`;
+    }
+
+    if (cmd.verb === "add") throw new Error(`${cmd.callsign} is already on the board in ${current}`);
+    if (cmd.lane && cmd.lane !== current) moveItem(existing.id, cmd.lane);
+    if (Object.keys(cmd.fields).length) patchItem(existing.id, cmd.fields);
+    return `${cmd.callsign}${cmd.lane && cmd.lane !== current ? ` moved to ${cmd.lane}` : ""}${fieldList ? ` · ${fieldList}` : ""}`;
+  }
+
+  // An ACP accepts our proposal; EST/CPL/template lines update (or create) the card like a command.
+  async function applyMessage(msg: ParsedMessage): Promise<string> {
+    if (msg.type !== "ACP") {
+      return runCommand({ verb: "set", callsign: msg.callsign, lane: msg.lane, fields: msg.fields, routeWaypoints: msg.routeWaypoints });
+    }
+    const item = (Object.values(state.items) as BoardItem[]).find((x) => x.callsign.toUpperCase() === msg.callsign);
+    if (!item) throw new Error(`${msg.callsign} is not on the board`);
+    if (!allowedActions(item).includes("accept")) {
+      throw new Error(`${msg.callsign} has nothing to accept (${COORD_LABELS[coordOf(item).status].toLowerCase()})`);
+    }
+    coordinate(item.id, "accept");
+    return `${msg.callsign} coordination accepted`;
+  }
+
+  // Recomputed on every change, including our own edits that the server hasn't sequenced yet.
+  const conflicts = useMemo(
+    () => (config ? detectConflicts(state, config) : {}),
+    [state.items, state.lanes, config]
+  );
+
+  const urgencies = useMemo(() => {
+    const out: Record<string, Urgency> = {};
+    for (const lane of Object.keys(state.lanes) as LaneKey[]) {
+      const laneCfg = config?.lanes.find((l) => l.key === lane);
+      for (const id of state.lanes[lane]) if (state.items[id]) out[id] = cardUrgency(state.items[id], lane, laneCfg, now);
+    }
+    return out;
+  }, [state.items, state.lanes, config, now]);
+
+  // What each lane shows: the cards passing the filter, in the lane's sort order.
+  const shownIds = useMemo(() => {
+    const out: Record<LaneKey, string[]> = {};
+    for (const lane of Object.keys(state.lanes) as LaneKey[]) {
+      const ids = state.lanes[lane].filter((id) => state.items[id] && matchesFilter(state.items[id], filter));
+      out[lane] = sortLane(ids, state.items, laneSorts[lane] ?? "manual", now);
+    }
+    return out;
+  }, [state.items, state.lanes, filter, laneSorts, now]);
+
+  // Chime when a card escalates to late or overdue (not for cards already there when the board loaded).
+  const lastLevels = useRef<Record<string, number> | null>(null);
+  useEffect(() => {
+    const rank = (id: string) => URGENCY_LEVELS.indexOf(urgencies[id].level);
+    const prev = lastLevels.current;
+    lastLevels.current = Object.fromEntries(Object.keys(urgencies).map((id) => [id, rank(id)]));
+    if (!prev || !soundAlerts) return;
+    const escalated = Object.keys(urgencies).some(
+      (id) => prev[id] !== undefined && rank(id) > prev[id] && rank(id) >= URGENCY_LEVELS.indexOf("late")
+    );
+    if (escalated) chime();
+  }, [urgencies, soundAlerts]);
+
+  const callsignsOnBoard = useMemo(
+    () => new Set((Object.values(state.items) as BoardItem[]).map((x) => x.callsign.toUpperCase())),
+    [state.items]
+  );
+
+  const boardCallsigns = useMemo(() => [...callsignsOnBoard], [callsignsOnBoard]);
+
+  const manualItem = (card: ImportedCard): BoardItem => ({ id: uuidv4(), source: "manual", ...card.fields });
+
+  function addManualCard(card: ImportedCard) {
+    if (callsignsOnBoard.has(card.fields.callsign)) return `${card.fields.callsign} is already on the board`;
+    dispatch({ type: "item:add", item: manualItem(card), lane: card.lane });
+    return null;
+  }
+
+  // Imported cards keep the file's order at the bottom of each lane. A slot list can be
+  // hundreds of cards, so they are not individual undo steps.
+  function importCards(cards: ImportedCard[]) {
+    const next: Record<string, number> = {};
+    for (const card of cards) {
+      const index = (next[card.lane] ??= state.lanes[card.lane]?.length ?? 0);
+      next[card.lane] = index + 1;
+      dispatchOp({ type: "item:add", item: manualItem(card), lane: card.lane, index });
+    }
+  }
 
-    setState((prev) => ({
-      ...prev,
-      items: { ...prev.items, [id]: item },
-      lanes: { ...prev.lanes, Unassigned: [id, ...prev.lanes.Unassigned] },
-      lastUpdated: Date.now(),
-    }));
+  function assignToLane(id: string, lane: LaneKey, fix: string) {
+    moveItem(id, lane);
+    patchItem(id, { waypoint: fix });
   }
 
-  function patchItem(id: string, patch: Partial<BoardItemFields>) {
-    setState((prev) => ({
-      ...prev,
-      items: { ...prev.items, [id]: { ...prev.items[id], ...patch } },
-      lastUpdated: Date.now(),
-    }));
-    sendItemPatch(id, patch); // realtime fine-grained sync
+  function patchItem(id: string, patch: Partial<BoardItemFields>, track = true) {
+    (track ? dispatch : dispatchOp)({ type: "item:patch", id, patch });
   }
 
   function deleteItem(id: string) {
-    setState((prev) => {
-      const items = { ...prev.items };
-      delete items[id];
-      const lanes: Record<LaneKey, string[]> = { ...prev.lanes } as any;
-      (Object.keys(lanes) as LaneKey[]).forEach((k) => {
-        lanes[k] = lanes[k].filter((x) => x !== id);
-      });
-      return { ...prev, items, lanes, lastUpdated: Date.now() };
+    dispatch({ type: "item:delete", id });
+  }
+
+  function completeItem(id: string) {
+    dispatch({ type: "item:complete", id });
+  }
+
+  // ---- Bulk actions on the selected cards, through the same paths as one card ----
+  function selectCard(id: string, on: boolean) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (on) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  }
+
+  function bulkMove(to: LaneKey) {
+    for (const id of selectedIds) if (laneOf(state, id) !== to) moveItem(id, to);
+  }
+
+  function bulkComplete() {
+    selectedIds.forEach(completeItem);
+    setSelected(new Set());
+  }
+
+  function bulkDelete() {
+    if (!confirm(`Remove ${selectedIds.length} card${selectedIds.length === 1 ? "" : "s"} from the board?`)) return;
+    selectedIds.forEach(deleteItem);
+    setSelected(new Set());
+  }
+
+  // One line per card in its lane's copy format, in board order.
+  function bulkCopy() {
+    const lines = selectedIds.map((id) => {
+      const item = state.items[id];
+      const lane = laneOf(state, id)!;
+      const pilot = traffic[item.callsign.toUpperCase()];
+      return templateMessage(laneConfig(lane)?.copyFormat, messageValues(item, lane, { adep: pilot?.planned_depairport, ades: pilot?.planned_destairport }));
     });
+    return copyToClipboard(lines.join("\n"));
+  }
+
+  function reactivateItem(id: string, lane: LaneKey) {
+    const done = state.completed?.[id];
+    dispatch({ type: "item:reactivate", id, lane });
+    // Back in another lane, the card gets the same housekeeping as a move.
+    const patch = done && done.lane !== lane ? laneChangePatch(done.item, lane, laneConfig(lane)) : {};
+    if (Object.keys(patch).length) patchItem(id, patch, false);
+    focusCard(id);
+  }
+
+  function coordinate(id: string, action: CoordAction, counter?: CoordValues) {
+    // Recorded against our position; anonymous users fall back to the facility (us for
+    // proposals, the lane's facility for accept/counter/reject).
+    const lane = (Object.keys(state.lanes) as LaneKey[]).find((k) => state.lanes[k].includes(id));
+    const by = identity?.callsign || (action === "propose" ? config?.homeFacility : lane);
+    dispatch({ type: "item:coord", id, action, by, counter });
+  }
+
+  async function saveIdentity({ code, ...next }: Identity & { code?: string }) {
+    if (!(await identifyAs({ ...next, code }))) return;
+    localStorage.setItem(IDENTITY_KEY, JSON.stringify(next));
+    setEditingIdentity(false);
+  }
+
+  // itemId -> field -> callsign of whoever else has that field focused
+  const editing = useMemo(() => {
+    const map: Record<string, Partial<Record<keyof BoardItemFields, string>>> = {};
+    for (const p of presence) {
+      if (!p.editing || p.sid === selfId) continue;
+      (map[p.editing.itemId] ||= {})[p.editing.field as keyof BoardItemFields] = p.callsign || "Guest";
+    }
+    return map;
+  }, [presence, selfId]);
+  const editorsFor = (id: string) => editing[id] || {};
+
+  function resetBoard() {
+    if (!confirm("Archive the current board on the server and start an empty one?")) return;
+    sendReset();
   }
 
   // ---- DnD: cross-lane + reorder ----
   const [dragOrigin, setDragOrigin] = useState<LaneKey | null>(null);
 
-  function moveItem(id: string, from: LaneKey, to: LaneKey, index?: number) {
-    setState((prev) => {
-      const fromArr = prev.lanes[from].filter((x) => x !== id);
-      const toArr = [...prev.lanes[to]];
-      if (typeof index === "number") toArr.splice(index, 0, id);
-      else toArr.unshift(id);
-      return {
-        ...prev,
-        lanes: { ...prev.lanes, [from]: fromArr, [to]: toArr },
-        lastUpdated: Date.now(),
-      };
-    });
-    sendMove(id, from, to, index); // realtime move
+  const laneConfig = (key: LaneKey) => config?.lanes.find((l) => l.key === key);
+
+  function moveItem(id: string, to: LaneKey, index?: number) {
+    const from = (Object.keys(state.lanes) as LaneKey[]).find((k) => state.lanes[k].includes(id));
+    dispatch({ type: "item:move", id, to, index });
+    if (from === to) return;
+    // Housekeeping for the new lane, not an undoable edit.
+    const patch = laneChangePatch(state.items[id], to, laneConfig(to));
+    if (Object.keys(patch).length) patchItem(id, patch, false);
   }
 
-  function reorderInLane(lane: LaneKey, oldIndex: number, newIndex: number) {
-    setState((prev) => ({
-      ...prev,
-      lanes: { ...prev.lanes, [lane]: arrayMove(prev.lanes[lane], oldIndex, newIndex) },
-      lastUpdated: Date.now(),
-    }));
+  function reorderInLane(id: string, newIndex: number) {
+    dispatch({ type: "item:reorder", id, index: newIndex });
   }
 
   function handleDragStart(event: any) {
@@ -530,22 +2759,42 @@ export default function App() {
   function handleDragEnd(event: any) {
     const { active, over } = event;
     if (!over) return;
+    if (String(over.id).startsWith(FIX_DROP)) {
+      const { lane, fix } = over.data.current as FixTarget;
+      if (laneOf(state, active.id) === lane) patchItem(active.id, { waypoint: fix });
+      else assignToLane(active.id, lane, fix);
+      return;
+    }
     const laneKeys = Object.keys(state.lanes) as LaneKey[];
     const overLane = laneKeys.find((k) => k === over.id || state.lanes[k].includes(over.id));
     const origin = dragOrigin as LaneKey | null;
     if (!overLane || !origin) return;
 
     if (origin === overLane) {
+      if (laneSorts[origin]) return; // the lane shows an automatic order
       const oldIndex = state.lanes[origin].indexOf(active.id);
       const newIndex = state.lanes[overLane].indexOf(over.id);
       if (oldIndex !== -1 && newIndex !== -1 && oldIndex !== newIndex) {
-        reorderInLane(origin, oldIndex, newIndex);
+        reorderInLane(active.id, newIndex);
       }
     } else {
-      moveItem(active.id, origin, overLane);
+      moveItem(active.id, overLane);
     }
   }
 
+  if (!config) return <div className="dark-root"><div className="container muted">Loading…</div></div>;
+
+  // Configured order first; a lane the configuration no longer has shows last until it is migrated.
+  const laneOrder = [
+    ...config.lanes.map((l) => l.key).filter((k) => state.lanes[k]),
+    ...Object.keys(state.lanes).filter((k) => !laneConfig(k)),
+  ];
+  // Selected cards still on the board, in the order the lanes show them (hidden ones last per lane).
+  const selectedIds = laneOrder
+    .flatMap((l) => [...shownIds[l], ...state.lanes[l].filter((id) => !shownIds[l].includes(id))])
+    .filter((id) => selected.has(id));
+  const shownCount = laneOrder.reduce((n, l) => n + shownIds[l].length, 0);
+
   /* ===========================
      UI
   =========================== */
@@ -554,7 +2803,14 @@ export default function App() {
       {/* Top bar */}
       <div className="top dark-top">
         <div className="inner container">
-          <div className="brand">Coordination Board</div>
+          <div style={{ display: "flex", gap: 10, alignItems: "baseline" }}>
+            <div className="brand">Coordination Board</div>
+            <a className="muted" href="/" title="All boards">
+              {boardName}
+            </a>
+            <UtcClock />
+            <ConnectionIndicator status={connection} queued={queued} />
+          </div>
           <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
             <input
               className="input dark-input"
@@ -563,16 +2819,127 @@ export default function App() {
               onChange={(e) => setQuery(e.target.value)}
             />
             <div className="muted">
-              {loading ? "Loading…"
-                : err ? `Error: ${err}`
-                : `${pilots.length.toLocaleString()} pilots online`}
+              {!feedStatus ? "Loading…"
+                : feedStatus.error ? `Error: ${feedStatus.error}`
+                : `${feedStatus.count.toLocaleString()} pilots online`}
             </div>
+            {canEdit && (
+              <>
+                <button className="copy" onClick={() => setPanel(panel === "manual" ? null : "manual")}>
+                  New card
+                </button>
+                <button className="copy" onClick={() => setPanel(panel === "import" ? null : "import")}>
+                  Import
+                </button>
+              </>
+            )}
+            <button className="copy" onClick={() => setPanel(panel === "export" ? null : "export")}>
+              Export
+            </button>
+            <button className="copy" onClick={() => setPanel(panel === "archive" ? null : "archive")} title="Completed cards">
+              Archive ({Object.keys(state.completed || {}).length})
+            </button>
+            <button className="copy" onClick={toggleMap} title="Situation map of carded traffic and boundary fixes">
+              {showMap ? "Hide map" : "Map"}
+            </button>
+            {canEdit && (
+              <button className="copy" onClick={() => setPanel(panel === "message" ? null : "message")}>
+                Paste message
+              </button>
+            )}
+            <label className="muted" title="Put new cards straight into the lane their route crosses when there is exactly one match">
+              <input type="checkbox" checked={autoAssign} onChange={(e) => toggleAutoAssign(e.target.checked)} /> Auto-assign lane
+            </label>
+            <label className="muted" title="Chime when a card passes its coordination deadline or its estimate">
+              <input type="checkbox" checked={soundAlerts} onChange={(e) => toggleSound(e.target.checked)} /> Sound
+            </label>
+            <button className="copy" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+              Undo
+            </button>
+            <button className="copy" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+              Redo
+            </button>
+            {isAdmin && (
+              <button className="remove" onClick={resetBoard} title="Archive this board and start an empty one">
+                Archive &amp; reset
+              </button>
+            )}
           </div>
         </div>
       </div>
 
       {/* Search results */}
       <div className="container" style={{ marginTop: 12 }}>
+        {(!identity || editingIdentity || identityError) && (
+          <IdentityForm
+            initial={identity || loadIdentity()}
+            facilities={facilityNames(config)}
+            error={identityError}
+            open={openAccess}
+            onSubmit={saveIdentity}
+            onCancel={identity ? () => setEditingIdentity(false) : undefined}
+          />
+        )}
+        <PresenceBar presence={presence} selfId={selfId} showRoles={!openAccess} onEdit={() => setEditingIdentity(true)} />
+
+        {canEdit && <CommandLine config={config} socket={socket} callsigns={boardCallsigns} onRun={runCommand} />}
+
+        {panel === "manual" && <ManualCardForm config={config} onAdd={addManualCard} onClose={() => setPanel(null)} />}
+        {panel === "import" && (
+          <ImportPanel
+            config={config}
+            existing={callsignsOnBoard}
+            onImport={importCards}
+            onRestore={isAdmin ? restoreBoard : undefined}
+            onClose={() => setPanel(null)}
+          />
+        )}
+        {panel === "export" && <ExportPanel boardName={boardName} downloadToken={downloadToken} onClose={() => setPanel(null)} />}
+        {panel === "archive" && (
+          <ArchivePanel
+            config={config}
+            completed={state.completed}
+            onReactivate={reactivateItem}
+            loadHistory={loadHistory}
+            permitted={permitted}
+            onClose={() => setPanel(null)}
+          />
+        )}
+        {panel === "message" && <MessagePanel config={config} onApply={applyMessage} onClose={() => setPanel(null)} />}
+
+        {boardError && (
+          <div className="search-card dark-panel" style={{ marginBottom: 12 }}>
+            {boardError} — <a href="/">pick or create a board</a>
+          </div>
+        )}
+        {opError && (
+          <div className="search-card dark-panel" style={{ marginBottom: 12 }}>
+            Change not applied: {opError}
+          </div>
+        )}
+        <ConflictList conflicts={replayConflicts} onResolve={resolveConflict} />
+
+        <FilterBar
+          config={config}
+          filter={filter}
+          onChange={setFilter}
+          shown={shownCount}
+          total={Object.keys(state.items).length}
+          onSelectShown={() => setSelected(new Set(laneOrder.flatMap((l) => shownIds[l])))}
+        />
+        {selectedIds.length > 0 && (
+          <BulkBar
+            count={selectedIds.length}
+            lanes={laneOrder}
+            canEdit={canEdit}
+            onMove={bulkMove}
+            onComplete={bulkComplete}
+            onDelete={bulkDelete}
+            onCopy={bulkCopy}
+            onClear={() => setSelected(new Set())}
+          />
+        )}
+
         {!!query && (
           <div className="search-card dark-panel">
             <div style={{ marginBottom: 6 }} className="muted">Search Results</div>
@@ -581,6 +2948,7 @@ export default function App() {
                 <button
                   key={p.callsign}
                   className="pill dark-pill"
+                  disabled={!permitted({ type: "item:add", item: pilotItem(p), lane: INBOX_LANE })}
                   onClick={() => addPilotToUnassigned(p)}
                   title={`${p.planned_depairport || p.flight_plan?.departure || "?"} → ${p.planned_destairport || p.flight_plan?.arrival || "?"}`}
                 >
@@ -595,19 +2963,39 @@ export default function App() {
         {/* Vertical lanes */}
         <DndContext
           sensors={sensors}
-          collisionDetection={closestCenter}
+          collisionDetection={boardCollisions}
           onDragStart={handleDragStart}
           onDragEnd={handleDragEnd}
         >
+          {showMap && <SituationMap config={config} state={state} traffic={traffic} onFocusCard={focusCard} />}
           <div className="board">
-            {(Object.keys(state.lanes) as LaneKey[]).map((laneKey) => (
+            {laneOrder.map((laneKey) => (
               <Lane
                 key={laneKey}
                 laneKey={laneKey}
+                lane={laneConfig(laneKey)}
+                config={config}
                 ids={state.lanes[laneKey]}
+                shown={shownIds[laneKey]}
+                sort={laneSorts[laneKey] ?? "manual"}
+                onSort={(sort: LaneSort) => setLaneSort(laneKey, sort)}
+                filtering={isFiltering(filter)}
                 items={state.items}
                 onPatch={patchItem}
                 onDelete={deleteItem}
+                onComplete={completeItem}
+                onCoord={coordinate}
+                loadHistory={loadHistory}
+                editorsFor={editorsFor}
+                onFocusField={focusField}
+                traffic={traffic}
+                conflicts={conflicts}
+                urgencies={urgencies}
+                onAssign={assignToLane}
+                permitted={permitted}
+                focusedId={focusedId}
+                selected={selected}
+                onSelect={selectCard}
               />
             ))}
           </div>
@@ -655,10 +3043,105 @@ body{margin:0}
 .card-top{display:flex;align-items:center;justify-content:space-between}
 .callsign{font-weight:800;letter-spacing:.2px;cursor:grab}
 .remove{font-size:11px;border:1px solid rgba(239,68,68,.35);color:#fecaca;background:rgba(239,68,68,.12);padding:6px 10px;border-radius:999px;cursor:pointer}
+a.copy{text-decoration:none}
 .copy{font-size:11px;border:1px solid rgba(96,165,250,.25);color:#cfe1ff;background:rgba(96,165,250,.08);padding:6px 10px;border-radius:999px;cursor:pointer}
+.accept{font-size:11px;border:1px solid rgba(34,197,94,.35);color:#bbf7d0;background:rgba(34,197,94,.12);padding:6px 10px;border-radius:999px;cursor:pointer}
+.coord{margin-top:10px;border-top:1px solid var(--border);padding-top:8px}
+.coord-row{display:flex;flex-wrap:wrap;gap:8px;align-items:center}
+.coord-actions{display:flex;gap:6px;margin-left:auto}
+.badge{font-size:11px;font-weight:700;border-radius:999px;padding:3px 9px;border:1px solid var(--border)}
+.badge-draft{color:var(--muted)}
+.badge-proposed{color:#fde68a;background:rgba(245,158,11,.14);border-color:rgba(245,158,11,.4)}
+.badge-counter{color:#fdba74;background:rgba(249,115,22,.14);border-color:rgba(249,115,22,.45)}
+.badge-accepted{color:#bbf7d0;background:rgba(34,197,94,.14);border-color:rgba(34,197,94,.4)}
+.badge-rejected{color:#fecaca;background:rgba(239,68,68,.14);border-color:rgba(239,68,68,.4)}
+.history{list-style:none;margin:10px 0 0;padding:8px 0 0;border-top:1px solid var(--border);font-size:12px;max-height:180px;overflow:auto}
+.history li{display:flex;gap:8px;padding:2px 0}
+.history-time{color:var(--muted);font-variant-numeric:tabular-nums}
+.history-actor{color:var(--accent)}
+button:disabled{opacity:.45;cursor:default}
+.presence{display:flex;flex-wrap:wrap;gap:6px;align-items:center;margin-bottom:8px}
+.presence-pill{padding:4px 10px;font-size:12px;cursor:default}
+.presence-pill.self{border-color:var(--accent)}
+.dot{display:inline-block;width:7px;height:7px;border-radius:50%;background:#22c55e;margin-right:6px}
+.editing{font-size:10px;color:#fde68a;margin-left:4px}
+.being-edited{border-color:rgba(245,158,11,.7);box-shadow:0 0 0 2px rgba(245,158,11,.18)}
+.suggest{display:flex;gap:6px;align-items:center;margin-top:4px;font-size:11px;color:var(--accent)}
+.suggest .copy{padding:2px 8px}
+.suggest.revise{color:#fbbf24}
+.needs-revision{border-color:rgba(245,158,11,.65)}
+.map-panel{padding:8px;margin-bottom:12px}
+.situation-map{display:block;width:100%;height:auto;max-height:460px;background:#0a1430;border-radius:10px}
+.map-fir{fill:rgba(96,165,250,.06);stroke:rgba(96,165,250,.55);stroke-width:1.5;stroke-dasharray:6 4}
+.map-fir-name{fill:var(--muted);font-size:12px;font-weight:700}
+.map-fix text{fill:#cbd5e1;font-size:10px;font-weight:600}
+.map-fix-target{fill:transparent;stroke:transparent;stroke-width:2}
+.map-fix.over .map-fix-target{fill:rgba(96,165,250,.2);stroke:var(--accent)}
+.map-aircraft{cursor:pointer}
+.map-aircraft text{fill:var(--text);font-size:11px;font-weight:700}
+.map-aircraft .map-aircraft-level{fill:var(--muted);font-weight:400;font-size:10px}
+.map-aircraft-target{fill:transparent}
+.map-aircraft:hover .map-aircraft-target{fill:rgba(255,255,255,.12)}
+.map-legend{font-size:11px;margin-top:6px}
+.card-focused{box-shadow:0 0 0 3px var(--accent)}
+.clock{font-weight:700;font-variant-numeric:tabular-nums;color:#cfe1ff;letter-spacing:.5px}
+.connection{font-size:12px;color:var(--muted);white-space:nowrap}
+.connection-syncing .dot,.connection-connecting .dot{background:#fbbf24}
+.connection-offline{color:#fecaca}
+.connection-offline .dot{background:#ef4444}
+.replay-conflicts{border-color:rgba(245,158,11,.5)}
+.replay-conflict{display:flex;gap:8px;align-items:center;margin-top:6px;font-size:13px}
+.replay-conflict span{flex:1}
+.filter-bar{display:flex;gap:8px;align-items:center;flex-wrap:wrap;margin-bottom:10px}
+.filter-bar .input-sm{width:110px}
+.bulk-bar{display:flex;gap:8px;align-items:center;flex-wrap:wrap;margin-bottom:10px;padding:8px 12px;border:1px solid var(--accent);border-radius:12px;background:rgba(96,165,250,.08)}
+.lane-sort{font-size:11px;padding:2px 4px}
+.card-select{margin:0 8px 0 0;vertical-align:middle;cursor:pointer}
+.card-selected{outline:2px solid var(--accent);outline-offset:1px}
+.archive-list{margin-top:10px;display:flex;flex-direction:column;gap:6px}
+.archive-entry{border:1px solid var(--border);border-radius:10px;padding:6px 8px}
+.archive-row{display:flex;gap:10px;align-items:center;flex-wrap:wrap;font-size:13px}
+.archive-callsign{font-weight:700;border-left:4px solid;padding-left:6px;min-width:90px}
+.archive-row select{margin-left:auto}
+.countdown{margin-top:4px;font-size:11px;color:var(--muted)}
+.countdown-due{color:#fbbf24}
+.countdown-late,.countdown-overdue{color:#fca5a5;font-weight:700}
+.urgency-due{border-color:rgba(245,158,11,.65)}
+.urgency-late{border-color:rgba(239,68,68,.75);animation:pulse 1.6s ease-in-out infinite}
+.urgency-overdue{border-color:rgba(239,68,68,.9);background:linear-gradient(180deg,#2a1320,#1d1226)}
+@keyframes pulse{50%{box-shadow:0 0 0 3px rgba(239,68,68,.25),0 10px 22px rgba(0,0,0,.25)}}
+.count-late{color:#fca5a5;border-color:rgba(239,68,68,.5)}
+.count-overdue{color:#fecaca;background:rgba(239,68,68,.18);border-color:rgba(239,68,68,.6)}
+.in-conflict{border-color:rgba(239,68,68,.8);box-shadow:0 0 0 2px rgba(239,68,68,.2),0 10px 22px rgba(0,0,0,.25)}
+.conflicts{list-style:none;margin:10px 0 0;padding:6px 8px;border-radius:10px;background:rgba(239,68,68,.12);color:#fecaca;font-size:12px}
+.command-line{margin:10px 0}
+.command-input{width:100%;font-family:ui-monospace,Menlo,Consolas,monospace;letter-spacing:.5px}
+.completions{display:flex;flex-wrap:wrap;gap:6px;margin-top:6px}
+.completions .pill{padding:3px 9px;font-size:12px;font-family:ui-monospace,Menlo,Consolas,monospace}
+.completions .first{border-color:var(--accent)}
+.command-result{margin-top:6px;font-size:12px;color:#bbf7d0}
+.command-result.error{color:#fecaca}
+.messages{margin-top:10px;border-top:1px solid var(--border);padding-top:8px;display:flex;flex-direction:column;gap:6px}
+.message-row{display:flex;gap:8px;align-items:center}
+.message-row .copy{white-space:nowrap}
+.message-row code{font-size:11px;color:#cfe1ff;word-break:break-all}
+.tag{font-size:10px;font-weight:700;color:var(--muted);border:1px solid var(--border);border-radius:6px;padding:1px 5px;margin-left:8px;vertical-align:middle}
+.pilot-gone{opacity:.7;border-style:dashed}
+.tag-gone{color:#fecaca;border-color:rgba(239,68,68,.45)}
+.import-errors{margin:8px 0 0;padding-left:18px;font-size:12px;color:#fecaca;max-height:140px;overflow:auto}
+.route-suggest{display:flex;flex-wrap:wrap;gap:6px;align-items:center;margin-top:10px}
+.route-suggest .pill{padding:4px 10px;font-size:12px}
 .grid{display:grid;gap:10px;margin-top:10px}
 @media(min-width:740px){.grid{grid-template-columns:repeat(4,1fr)}}
 .label{display:block;font-size:11px;color:#b7c6e0;margin-bottom:4px}
+.chip-row{display:flex;flex-wrap:wrap;gap:6px}
+.chip{display:inline-flex;align-items:center;gap:6px;font-size:12px;border:1px solid var(--border);border-radius:999px;padding:4px 10px}
+.delivery-log{width:100%;border-collapse:collapse;font-size:12px;margin-top:8px}
+.delivery-log th,.delivery-log td{text-align:left;padding:4px 8px;border-bottom:1px solid var(--border)}
+.delivery-log .delivery-failed td{color:#fecaca}
+.delivery-log .delivery-pending td{color:var(--muted)}
+.board-link{display:flex;justify-content:space-between;align-items:center;color:inherit;text-decoration:none}
+a{color:var(--accent)}
 .input-sm,select{width:100%;border:1px solid var(--border);border-radius:10px;padding:8px 10px;background:#0a1324;color:var(--text)}
 `;
   document.head.appendChild(el);
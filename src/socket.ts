@@ -0,0 +1,39 @@
+import type { Socket } from "socket.io-client";
+import type { Role } from "../shared/types";
+
+const isLocal = location.hostname === "localhost" || location.hostname === "127.0.0.1";
+export const SOCKET_URL =
+  isLocal
+    ? (import.meta as any)?.env?.VITE_SOCKET_URL || "http://localhost:5175"
+    : window.location.origin; // <-- prod uses same origin (Railway URL)
+
+export interface Identity {
+  cid: string;
+  callsign: string; // position, e.g. TJZS_CTR
+  facility: string; // the home facility or an adjacent lane
+}
+
+export interface SessionReply {
+  identity?: Identity;
+  role?: Role;
+  token?: string;
+  error?: string;
+  expired?: boolean; // the stored session is no longer valid
+}
+
+// Signed session from the last successful identify, shared by every page. The access
+// code itself is never stored.
+export const SESSION_KEY = "coord:session";
+
+/** Identify with the form values or, when `raw` is omitted, the stored session. */
+export function identify(socket: Socket, raw?: Identity & { code?: string }): Promise<SessionReply> {
+  const token = localStorage.getItem(SESSION_KEY);
+  if (!raw && !token) return Promise.resolve({});
+  return new Promise((resolve) =>
+    socket.emit("session:identify", raw || { token }, (res: SessionReply) => {
+      if (res.expired) localStorage.removeItem(SESSION_KEY);
+      if (res.token) localStorage.setItem(SESSION_KEY, res.token);
+      resolve(res);
+    })
+  );
+}
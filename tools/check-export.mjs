@@ -0,0 +1,43 @@
+import assert from 'assert/strict';
+import fs from 'fs';
+import { boardToJson, readBoardExport } from '../shared/export.mjs';
+import { applyOp } from '../shared/ops.mjs';
+
+// ---- Export round-trip check ----
+// A JSON export read back with readBoardExport must give the same board, archive included:
+//   npm run check-export                      # a sample board with an on-board and a completed card
+//   npm run check-export -- data/main.json    # an export (or a board snapshot) of your own
+
+const card = (id, callsign, estimate) => ({
+  id,
+  source: 'manual',
+  callsign,
+  waypoint: 'ANADA',
+  estimate,
+  altitude: 'FL350',
+  mach: 'M82',
+  squawk: '2301',
+  routeWaypoints: ['ANADA']
+});
+
+function sampleBoard() {
+  let state = { lanes: { Unassigned: [], Piarco: [] }, items: {}, lastUpdated: 1_700_000_000_000, version: 3 };
+  state = applyOp(state, { type: 'item:add', item: card('c1', 'JBU123', '1432'), lane: 'Piarco' });
+  state = applyOp(state, { type: 'item:add', item: card('c2', 'AAL45', '1410'), lane: 'Piarco' });
+  return applyOp(state, { type: 'item:complete', id: 'c2', at: 1_700_000_100_000 });
+}
+
+const file = process.argv[2];
+const parsed = file ? JSON.parse(fs.readFileSync(file, 'utf8')) : null;
+const state = parsed ? (parsed.state ?? parsed) : sampleBoard();
+
+const result = readBoardExport(JSON.parse(JSON.stringify(boardToJson(state, { board: 'check' }))));
+if (result.error) {
+  console.error(`❌ Export does not read back: ${result.error}`);
+  process.exit(1);
+}
+const { version, ...back } = result.state;
+assert.deepEqual(back, { lanes: state.lanes, items: state.items, completed: state.completed || {}, lastUpdated: state.lastUpdated });
+console.log(
+  `✅ Round trip kept ${Object.keys(back.items).length} cards on the board and ${Object.keys(back.completed).length} completed`
+);
@@ -0,0 +1,60 @@
+import assert from 'assert/strict';
+import { applyOp, validateOp } from '../shared/ops.mjs';
+import { validateBoardState } from '../shared/schema.mjs';
+
+// ---- Op validation check ----
+// Ids and lane names that exist on every JavaScript object must not pass for real ones, and
+// applying such an op anyway must not throw:
+//   npm run check-ops
+
+const card = (id, callsign) => ({
+  id,
+  source: 'manual',
+  callsign,
+  waypoint: 'ANADA',
+  estimate: '1432',
+  altitude: 'FL350',
+  mach: 'M82',
+  squawk: '2301',
+  routeWaypoints: ['ANADA']
+});
+
+let state = { lanes: { Unassigned: [], Piarco: [] }, items: {}, completed: {}, lastUpdated: 0, version: 0 };
+state = applyOp(state, { type: 'item:add', item: card('c1', 'JBU123'), lane: 'Piarco' });
+state = applyOp(state, { type: 'item:add', item: card('c2', 'AAL45'), lane: 'Piarco' });
+state = applyOp(state, { type: 'item:complete', id: 'c2' });
+
+const INHERITED = ['__proto__', 'constructor', 'toString', 'hasOwnProperty'];
+let checked = 0;
+const refused = (op) => {
+  checked++;
+  assert.ok(validateOp(state, op), `accepted ${JSON.stringify(op)}`);
+  assert.doesNotThrow(() => applyOp(state, op), `applying ${JSON.stringify(op)} threw`);
+};
+
+for (const key of INHERITED) {
+  // As a lane
+  refused({ type: 'item:add', item: card('c3', 'DAL7'), lane: key });
+  refused({ type: 'item:move', id: 'c1', to: key });
+  refused({ type: 'item:reactivate', id: 'c2', lane: key });
+  // As a card id
+  refused({ type: 'item:add', item: card(key, 'DAL7'), lane: 'Piarco' });
+  refused({ type: 'item:patch', id: key, patch: { estimate: '1200' } });
+  refused({ type: 'item:move', id: key, to: 'Piarco' });
+  refused({ type: 'item:reorder', id: key, index: 0 });
+  refused({ type: 'item:delete', id: key });
+  refused({ type: 'item:complete', id: key });
+  refused({ type: 'item:reactivate', id: key, lane: 'Piarco' });
+  refused({ type: 'item:coord', id: key, action: 'propose' });
+  refused({ type: 'item:link', id: key, cid: 1 });
+  refused({ type: 'item:sync', id: key, lastSeen: null });
+  // In a restored board
+  checked++;
+  assert.ok(validateBoardState({ ...state, lanes: { ...state.lanes, Piarco: [...state.lanes.Piarco, key] } }), `restored a board listing "${key}"`);
+}
+
+// The real ones still go through.
+assert.equal(validateOp(state, { type: 'item:move', id: 'c1', to: 'Unassigned' }), null);
+assert.equal(validateOp(state, { type: 'item:reactivate', id: 'c2', lane: 'Unassigned' }), null);
+assert.equal(applyOp(state, { type: 'item:patch', id: 'constructor', patch: { estimate: '1200' } }), state);
+console.log(`✅ ${checked} ops and restores with inherited ids or lanes were refused`);
@@ -0,0 +1,36 @@
+import http from 'http';
+
+// ---- Local webhook receiver ----
+// Stand-in for Discord or an adjacent unit's endpoint while testing webhooks:
+//   npm run webhook-receiver            # listens on :4000, prints every payload
+//   FAIL_FIRST=2 npm run webhook-receiver
+// FAIL_FIRST answers that many requests with HTTP 503 to exercise retries.
+// Point a webhook at http://localhost:4000/ on /admin.
+
+const PORT = Number(process.env.PORT) || 4000;
+let failuresLeft = Number(process.env.FAIL_FIRST) || 0;
+let received = 0;
+
+http
+  .createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received++;
+      const time = new Date().toISOString().slice(11, 19);
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        console.log(`${time} #${received} ${req.method} ${req.url} → 503 (failing ${failuresLeft} more)`);
+        return res.writeHead(503).end();
+      }
+      let payload = body;
+      try {
+        payload = JSON.stringify(JSON.parse(body), null, 2);
+      } catch {
+        // not JSON; print as received
+      }
+      console.log(`${time} #${received} ${req.method} ${req.url}\n${payload}\n`);
+      res.writeHead(204).end();
+    });
+  })
+  .listen(PORT, () => console.log(`📨 Webhook receiver on http://localhost:${PORT}/`));